@@ -0,0 +1,115 @@
+// @vitest-environment node
+import { afterEach, describe, expect, it } from 'vitest';
+import { createProxyServer } from '../app.js';
+
+const servers = [];
+
+async function start(options) {
+  const calls = [];
+  const fetchStub = async (url, init) => {
+    calls.push({ url, init, body: JSON.parse(init.body) });
+    return new Response(JSON.stringify({ ok: true }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+
+  const server = createProxyServer({ perspectiveApiKey: 'p-key', openaiApiKey: 'o-key', ...options }, fetchStub);
+  servers.push(server);
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address();
+
+  const post = (path, body) => fetch(`http://127.0.0.1:${port}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  return { calls, post };
+}
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+});
+
+describe('API proxy', () => {
+  it('adds the Perspective key server-side', async () => {
+    const { calls, post } = await start();
+
+    const response = await post('/api/analyze', { text: 'hello there', language: 'de' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ ok: true });
+    expect(calls[0].url).toContain('?key=p-key');
+    expect(calls[0].body.comment.text).toBe('hello there');
+    expect(calls[0].body.languages).toEqual(['de']);
+  });
+
+  it('adds the moderation key server-side, falling back to the OpenAI key', async () => {
+    const { calls, post } = await start({ moderationApiKey: 'm-key' });
+    const fallback = await start();
+
+    expect((await post('/api/moderate', { text: 'hello there' })).status).toBe(200);
+    await fallback.post('/api/moderate', { text: 'hello there' });
+
+    expect(calls[0].init.headers.Authorization).toBe('Bearer m-key');
+    expect(calls[0].body).toEqual({ model: 'omni-moderation-latest', input: 'hello there' });
+    expect(fallback.calls[0].init.headers.Authorization).toBe('Bearer o-key');
+  });
+
+  it('forces the configured model and caps tokens for roasts', async () => {
+    const { calls, post } = await start({ openaiModel: 'server-model' });
+
+    await post('/api/roast', {
+      model: 'client-model',
+      messages: [{ role: 'user', content: 'roast me' }],
+      max_tokens: 5000,
+    });
+
+    expect(calls[0].init.headers.Authorization).toBe('Bearer o-key');
+    expect(calls[0].body.model).toBe('server-model');
+    expect(calls[0].body.max_tokens).toBe(400);
+  });
+
+  it('keeps a temperature of 0 and defaults a missing one', async () => {
+    const { calls, post } = await start();
+    const messages = [{ role: 'user', content: 'classify me' }];
+
+    await post('/api/roast', { messages, temperature: 0 });
+    await post('/api/roast', { messages });
+    await post('/api/roast', { messages, temperature: 9 });
+
+    expect(calls.map(call => call.body.temperature)).toEqual([0, 0.8, 2]);
+  });
+
+  it('passes through models the server allows', async () => {
+    const { calls, post } = await start({ openaiModel: 'server-model', allowedModels: ['small-model'] });
+
+    await post('/api/roast', { model: 'small-model', messages: [{ role: 'user', content: 'roast me' }] });
+
+    expect(calls[0].body.model).toBe('small-model');
+  });
+
+  it('rejects invalid bodies without calling upstream', async () => {
+    const { calls, post } = await start();
+
+    expect((await post('/api/analyze', { text: '' })).status).toBe(400);
+    expect((await post('/api/moderate', {})).status).toBe(400);
+    expect((await post('/api/roast', { messages: [] })).status).toBe(400);
+    expect(calls).toHaveLength(0);
+  });
+
+  it('rate limits each client per route', async () => {
+    const { post } = await start({
+      rateLimits: { analyze: { capacity: 2, refillMs: 60000 }, roast: { capacity: 1, refillMs: 60000 } },
+    });
+
+    await post('/api/analyze', { text: 'one' });
+    await post('/api/analyze', { text: 'two' });
+    const limited = await post('/api/analyze', { text: 'three' });
+
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('retry-after')).toBe('60');
+    expect((await post('/api/roast', { messages: [{ role: 'user', content: 'hi' }] })).status).toBe(200);
+  });
+});
@@ -0,0 +1,235 @@
+import { createServer } from 'node:http';
+import { ClientRateLimiter } from './rateLimit.js';
+
+const MAX_BODY_BYTES = 16 * 1024;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_COMPLETION_TOKENS = 400;
+const UPSTREAM_TIMEOUT_MS = 15000;
+
+export const DEFAULT_CONFIG = {
+  perspectiveApiKey: undefined,
+  perspectiveUrl: 'https://commentanalyzer.googleapis.com/v1alpha1/comments:analyze',
+  openaiApiKey: undefined,
+  openaiUrl: 'https://api.openai.com/v1/chat/completions',
+  openaiModel: 'gpt-4-turbo-preview',
+  moderationApiKey: undefined, // Falls back to `openaiApiKey`
+  moderationUrl: 'https://api.openai.com/v1/moderations',
+  moderationModel: 'omni-moderation-latest',
+  allowedModels: [],  // Models clients may ask for by name; anything else gets `openaiModel`
+  allowedOrigin: undefined,
+  rateLimits: {
+    analyze: { capacity: 30, refillMs: 2000 }, // 30 per minute per client
+    roast: { capacity: 10, refillMs: 6000 },   // 10 per minute per client
+  },
+};
+
+class HttpError extends Error {
+  /**
+   * @param {number} status
+   * @param {string} message
+   */
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * @param {import('node:http').IncomingMessage} request
+ * @returns {Promise<any>}
+ */
+async function readJson(request) {
+  let size = 0;
+  const chunks = [];
+  for await (const chunk of request) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body too large');
+    chunks.push(chunk);
+  }
+
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON');
+  }
+}
+
+/**
+ * @param {import('node:http').ServerResponse} response
+ * @param {number} status
+ * @param {unknown} body
+ */
+function sendJson(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Forward an upstream response as is, so the browser parses it exactly as it would the real API's.
+ * Bodies are piped chunk by chunk, which keeps streamed completions streaming.
+ * @param {import('node:http').ServerResponse} response
+ * @param {Response} upstream
+ */
+async function relay(response, upstream) {
+  response.writeHead(upstream.status, { 'Content-Type': upstream.headers.get('content-type') ?? 'application/json' });
+  if (upstream.body) {
+    for await (const chunk of upstream.body) response.write(chunk);
+  }
+  response.end();
+}
+
+// Missing or non-numeric values get `fallback`; 0 is kept, since it is a valid setting
+function clamp(value, min, max, fallback = 0) {
+  const number = value === null || value === '' ? NaN : Number(value);
+  return Number.isFinite(number) ? Math.min(Math.max(number, min), max) : fallback;
+}
+
+function validateText(body) {
+  if (typeof body?.text !== 'string' || !body.text.trim()) {
+    throw new HttpError(400, '`text` is required');
+  }
+  if (body.text.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, `\`text\` must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+}
+
+function validateMessages(body) {
+  const { messages } = body ?? {};
+  const valid = Array.isArray(messages)
+    && messages.length > 0
+    && messages.length <= 4
+    && messages.every(message =>
+      ['system', 'user', 'assistant'].includes(message?.role)
+      && typeof message.content === 'string'
+      && message.content.length <= MAX_TEXT_LENGTH * 2);
+
+  if (!valid) {
+    throw new HttpError(400, '`messages` must be 1-4 chat messages');
+  }
+}
+
+/**
+ * Proxy that keeps the Perspective and OpenAI keys on the server.
+ *
+ *   POST /api/analyze { text, language? } → Perspective comments:analyze response
+ *   POST /api/moderate { text }           → OpenAI moderation response
+ *   POST /api/roast   { messages, max_tokens?, temperature?, presence_penalty?, frequency_penalty?, stream?, response_format? }
+ *                     → OpenAI chat completion response, or its event stream with `stream: true`
+ *
+ * The server picks the model (unless the client asks for one in `allowedModels`) and caps the tokens,
+ * so the key can't be used for arbitrary requests.
+ * @param {Partial<typeof DEFAULT_CONFIG>} [options]
+ * @param {typeof fetch} [fetchImpl]
+ */
+export function createProxyServer(options = {}, fetchImpl = globalThis.fetch) {
+  const config = { ...DEFAULT_CONFIG, ...options };
+  const limiters = {
+    analyze: new ClientRateLimiter(config.rateLimits.analyze),
+    roast: new ClientRateLimiter(config.rateLimits.roast),
+  };
+
+  const routes = {
+    '/api/analyze': async (body, signal) => {
+      if (!config.perspectiveApiKey) throw new HttpError(503, 'Perspective is not configured');
+      validateText(body);
+
+      return fetchImpl(`${config.perspectiveUrl}?key=${encodeURIComponent(config.perspectiveApiKey)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          comment: { text: body.text },
+          requestedAttributes: {
+            TOXICITY: {},
+            IDENTITY_ATTACK: {},
+            INSULT: {},
+            PROFANITY: {},
+            THREAT: {},
+            SEXUALLY_EXPLICIT: {},
+            FLIRTATION: {},
+          },
+          languages: [typeof body.language === 'string' ? body.language : 'en'],
+          doNotStore: true,
+        }),
+        signal,
+      });
+    },
+    '/api/moderate': async (body, signal) => {
+      const apiKey = config.moderationApiKey ?? config.openaiApiKey;
+      if (!apiKey) throw new HttpError(503, 'Moderation is not configured');
+      validateText(body);
+
+      return fetchImpl(config.moderationUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model: config.moderationModel, input: body.text }),
+        signal,
+      });
+    },
+    '/api/roast': async (body, signal) => {
+      if (!config.openaiApiKey) throw new HttpError(503, 'OpenAI is not configured');
+      validateMessages(body);
+
+      return fetchImpl(config.openaiUrl, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${config.openaiApiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          model: config.allowedModels.includes(body.model) ? body.model : config.openaiModel,
+          messages: body.messages.map(({ role, content }) => ({ role, content })),
+          max_tokens: Math.min(Number(body.max_tokens) || MAX_COMPLETION_TOKENS, MAX_COMPLETION_TOKENS),
+          temperature: clamp(body.temperature, 0, 2, 0.8),
+          presence_penalty: clamp(body.presence_penalty, -2, 2),
+          frequency_penalty: clamp(body.frequency_penalty, -2, 2),
+          stream: body.stream === true,
+          ...(body.response_format?.type === 'json_object' && { response_format: { type: 'json_object' } }),
+        }),
+        signal,
+      });
+    },
+  };
+
+  return createServer(async (request, response) => {
+    if (config.allowedOrigin) {
+      response.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+      response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      response.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    }
+
+    const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+    const route = routes[path];
+
+    if (!route) return sendJson(response, 404, { error: 'Not found' });
+    if (request.method === 'OPTIONS') return response.writeHead(204).end();
+    if (request.method !== 'POST') return sendJson(response, 405, { error: 'Use POST' });
+
+    const retryAfter = limiters[path === '/api/roast' ? 'roast' : 'analyze'].consume(request.socket.remoteAddress ?? 'unknown');
+    if (retryAfter > 0) {
+      response.setHeader('Retry-After', String(Math.ceil(retryAfter / 1000)));
+      return sendJson(response, 429, { error: 'Rate limit exceeded' });
+    }
+
+    // Stop the upstream request when the client goes away, e.g. a cancelled stream
+    const disconnected = new AbortController();
+    response.on('close', () => disconnected.abort());
+    const signal = AbortSignal.any([disconnected.signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)]);
+
+    try {
+      await relay(response, await route(await readJson(request), signal));
+    } catch (error) {
+      if (response.headersSent) {
+        // Failed mid-stream; all we can do is cut the response short
+        response.destroy();
+      } else if (error instanceof HttpError) {
+        sendJson(response, error.status, { error: error.message });
+      } else {
+        console.error(`${path} failed:`, error);
+        sendJson(response, 502, { error: 'Upstream request failed' });
+      }
+    }
+  });
+}
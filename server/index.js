@@ -0,0 +1,20 @@
+import { createProxyServer, DEFAULT_CONFIG } from './app.js';
+
+const env = process.env;
+const port = Number(env.PORT) || 8787;
+
+const server = createProxyServer({
+  perspectiveApiKey: env.PERSPECTIVE_API_KEY,
+  perspectiveUrl: env.PERSPECTIVE_API_URL ?? DEFAULT_CONFIG.perspectiveUrl,
+  openaiApiKey: env.OPENAI_API_KEY,
+  openaiUrl: env.OPENAI_API_URL ?? DEFAULT_CONFIG.openaiUrl,
+  openaiModel: env.OPENAI_MODEL ?? DEFAULT_CONFIG.openaiModel,
+  moderationApiKey: env.MODERATION_API_KEY,
+  moderationUrl: env.MODERATION_API_URL ?? DEFAULT_CONFIG.moderationUrl,
+  allowedModels: env.OPENAI_ALLOWED_MODELS?.split(',').map(model => model.trim()).filter(Boolean) ?? [],
+  allowedOrigin: env.ALLOWED_ORIGIN,
+});
+
+server.listen(port, () => {
+  console.log(`ScandalScope API proxy listening on http://localhost:${port}`);
+});
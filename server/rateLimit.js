@@ -0,0 +1,47 @@
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * In-memory token buckets per client, one set per route.
+ * The same scheme as the browser limiter, but enforced where clients can't reset it.
+ */
+export class ClientRateLimiter {
+  /**
+   * @param {{ capacity: number, refillMs: number }} budget
+   */
+  constructor(budget) {
+    this.budget = budget;
+    /** @type {Map<string, { tokens: number, updatedAt: number }>} */
+    this.buckets = new Map();
+  }
+
+  /**
+   * Take a token for `client`. Returns 0 when allowed, otherwise the ms until the next token.
+   * @param {string} client
+   * @returns {number}
+   */
+  consume(client) {
+    const { capacity, refillMs } = this.budget;
+    const now = Date.now();
+    const bucket = this.buckets.get(client) ?? { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) / refillMs);
+
+    if (tokens < 1) {
+      this.buckets.set(client, { tokens, updatedAt: now });
+      return Math.ceil((1 - tokens) * refillMs);
+    }
+
+    this.buckets.set(client, { tokens: tokens - 1, updatedAt: now });
+    if (this.buckets.size > MAX_TRACKED_CLIENTS) this.prune(now);
+    return 0;
+  }
+
+  // Forget clients whose bucket has refilled; they'd start from a full bucket anyway
+  prune(now) {
+    const { capacity, refillMs } = this.budget;
+    for (const [client, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) / refillMs >= capacity) {
+        this.buckets.delete(client);
+      }
+    }
+  }
+}
@@ -1,26 +1,57 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Send, Zap, AlertTriangle, Sparkles, Upload, Mic, MicOff } from 'lucide-react';
+import { Send, Zap, AlertTriangle, Sparkles, Upload, Mic, MicOff, FileText, ListOrdered, Activity, Layers, X } from 'lucide-react';
 import { useAnalysis } from '@/hooks/useAnalysis';
 import { useDebounce } from '@/hooks/useDebounce';
+import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Badge } from '@/components/ui/Badge';
 import { cn } from '@/lib/utils';
-import { validateInput } from '@/utils/validation';
+import { validateInput, validateThread } from '@/utils/validation';
+import { ProfileSelector } from '@/components/analysis/ProfileSelector';
+import { LanguageSelect } from '@/components/analysis/LanguageSelect';
+import { ThreadInput } from '@/components/analysis/ThreadInput';
+import { LiveRiskPreview } from '@/components/analysis/LiveRiskPreview';
+import { useLiveRisk } from '@/hooks/useLiveRisk';
+import { detectLanguage } from '@/utils/language';
+import { getScoringProfile } from '@/services/analysis/profiles';
+import { createDefaultEnsemble } from '@/services/analysis/ensemble';
+import type { ScoringProfileId } from '@/types';
 import toast from 'react-hot-toast';
 
+const MAX_INPUT_LENGTH = 2000;
+
+type InputMode = 'single' | 'thread';
+
 export const AnalysisInput: React.FC = () => {
   const [text, setText] = useState('');
+  const [mode, setMode] = useState<InputMode>('single');
+  const [posts, setPosts] = useState<string[]>(['', '']);
   const [isRecording, setIsRecording] = useState(false);
   const [dragActive, setDragActive] = useState(false);
+  const [profileId, setProfileId] = useLocalStorage<ScoringProfileId>('scandalscope-profile', 'default');
+  const [language, setLanguage] = useLocalStorage('scandalscope-language', 'auto');
+  const [liveScoring, setLiveScoring] = useLocalStorage('scandalscope-live-scoring', true);
+  const [compareProviders, setCompareProviders] = useLocalStorage('scandalscope-compare-providers', false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   
-  const { analyze, isAnalyzing } = useAnalysis();
+  const { analyze, analyzeThread, cancel, isAnalyzing } = useAnalysis();
+  
+  const profile = getScoringProfile(profileId);
+  const maxLength = Math.min(profile.maxLength, MAX_INPUT_LENGTH);
   
   const debouncedText = useDebounce(text, 300);
-  const validation = validateInput(debouncedText);
+  const debouncedPosts = useDebounce(posts, 300);
+  const isThread = mode === 'thread';
+  const validation = isThread ? validateThread(debouncedPosts, maxLength) : validateInput(debouncedText, maxLength);
+  const sampleText = isThread ? debouncedPosts.join(' ') : debouncedText;
+  const detectedLanguage = sampleText.trim() ? detectLanguage(sampleText).language : undefined;
+  // Local lexicon score of the debounced input; the provider-backed analysis only runs on Analyze
+  const liveRisk = useLiveRisk(isThread ? debouncedPosts : debouncedText, profile, language, liveScoring);
+  // Comparing needs at least two configured providers; the lexicon is always one
+  const canCompare = createDefaultEnsemble().providers.length > 1;
   const wordCount = text.trim().split(/\s+/).filter(Boolean).length;
   const charCount = text.length;
 
@@ -28,13 +59,17 @@ export const AnalysisInput: React.FC = () => {
     if (!validation.isValid || isAnalyzing) return;
     
     try {
-      await analyze(text);
-      toast.success('Analysis complete! 🎯');
+      const config = { profile: profile.id, language, ...(compareProviders && canCompare && { ensemble: createDefaultEnsemble() }) };
+      const result = isThread ? await analyzeThread(posts, config) : await analyze(text, config);
+      // null when the run failed (already reported) or was cancelled
+      if (result) {
+        toast.success('Analysis complete! 🎯');
+      }
     } catch (error) {
       toast.error('Analysis failed. Please try again.');
       console.error('Analysis error:', error);
     }
-  }, [text, validation.isValid, isAnalyzing, analyze]);
+  }, [isThread, posts, text, profile.id, language, compareProviders, canCompare, validation.isValid, isAnalyzing, analyze, analyzeThread]);
 
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
@@ -48,7 +83,7 @@ export const AnalysisInput: React.FC = () => {
       const reader = new FileReader();
       reader.onload = (e) => {
         const content = e.target?.result as string;
-        setText(content.slice(0, 2000));
+        setText(content.slice(0, MAX_INPUT_LENGTH));
         toast.success('File uploaded successfully!');
       };
       reader.onerror = () => toast.error('Failed to read file');
@@ -132,73 +167,157 @@ export const AnalysisInput: React.FC = () => {
 
         {/* Input Area */}
         <div className="space-y-6">
-          <div 
-            className={cn(
-              "relative transition-all duration-300",
-              dragActive && "ring-2 ring-purple-500 ring-opacity-50"
-            )}
-            onDrop={handleDrop}
-            onDragOver={(e) => {
-              e.preventDefault();
-              setDragActive(true);
-            }}
-            onDragLeave={() => setDragActive(false)}
-          >
-            <textarea
-              ref={textareaRef}
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Type your controversial take, social media post, or any text you want analyzed..."
-              className={cn(
-                "w-full bg-gray-800/50 border border-gray-700 rounded-xl px-6 py-4 text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 resize-none min-h-[140px] max-h-[300px] text-lg",
-                isAnalyzing && "opacity-50 cursor-not-allowed"
-              )}
-              maxLength={2000}
+          <div className="flex items-center gap-2" role="radiogroup" aria-label="Input mode">
+            {([
+              { id: 'single', label: 'Single post', icon: FileText },
+              { id: 'thread', label: 'Thread', icon: ListOrdered },
+            ] as const).map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                type="button"
+                role="radio"
+                aria-checked={mode === id}
+                onClick={() => setMode(id)}
+                disabled={isAnalyzing}
+                className={cn(
+                  'flex items-center px-3 py-1 rounded-full border text-sm font-medium transition-colors duration-200',
+                  'focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50 disabled:cursor-not-allowed',
+                  mode === id
+                    ? 'bg-purple-500/20 text-purple-300 border-purple-500/50'
+                    : 'bg-gray-800/50 text-gray-400 border-gray-700 hover:text-white hover:border-gray-600'
+                )}
+              >
+                <Icon className="h-4 w-4 mr-1.5" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {isThread ? (
+            <ThreadInput
+              posts={posts}
+              onPostsChange={setPosts}
+              maxLength={maxLength}
               disabled={isAnalyzing}
-              aria-label="Text to analyze"
-              aria-describedby="char-count word-count validation-message"
             />
+          ) : (
+            <div 
+              className={cn(
+                "relative transition-all duration-300",
+                dragActive && "ring-2 ring-purple-500 ring-opacity-50"
+              )}
+              onDrop={handleDrop}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDragActive(true);
+              }}
+              onDragLeave={() => setDragActive(false)}
+            >
+              <textarea
+                ref={textareaRef}
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                onKeyDown={handleKeyDown}
+                placeholder="Type your controversial take, social media post, or any text you want analyzed..."
+                className={cn(
+                  "w-full bg-gray-800/50 border border-gray-700 rounded-xl px-6 py-4 text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 resize-none min-h-[140px] max-h-[300px] text-lg",
+                  isAnalyzing && "opacity-50 cursor-not-allowed"
+                )}
+                maxLength={MAX_INPUT_LENGTH}
+                disabled={isAnalyzing}
+                aria-label="Text to analyze"
+                aria-describedby="char-count word-count validation-message"
+              />
             
-            {/* Character/Word Count */}
-            <div className="absolute bottom-4 right-4 flex items-center space-x-3 text-sm">
-              <Badge 
-                variant={wordCount > 50 ? 'warning' : 'default'} 
-                size="sm"
-                id="word-count"
-              >
-                {wordCount} words
-              </Badge>
-              <Badge 
-                variant={charCount > 1500 ? 'danger' : charCount > 1000 ? 'warning' : 'default'} 
-                size="sm"
-                id="char-count"
-              >
-                {charCount}/2000
-              </Badge>
+              {/* Character/Word Count */}
+              <div className="absolute bottom-4 right-4 flex items-center space-x-3 text-sm">
+                <Badge 
+                  variant={wordCount > 50 ? 'warning' : 'default'} 
+                  size="sm"
+                  id="word-count"
+                >
+                  {wordCount} words
+                </Badge>
+                <Badge 
+                  variant={charCount > maxLength * 0.75 ? 'danger' : charCount > maxLength * 0.5 ? 'warning' : 'default'} 
+                  size="sm"
+                  id="char-count"
+                >
+                  {charCount}/{maxLength}
+                </Badge>
+              </div>
+
+              {/* Upload Overlay */}
+              <AnimatePresence>
+                {dragActive && (
+                  <motion.div
+                    initial={{ opacity: 0 }}
+                    animate={{ opacity: 1 }}
+                    exit={{ opacity: 0 }}
+                    className="absolute inset-0 bg-purple-500/20 border-2 border-dashed border-purple-500 rounded-xl flex items-center justify-center"
+                  >
+                    <div className="text-center">
+                      <Upload className="h-8 w-8 text-purple-400 mx-auto mb-2" />
+                      <p className="text-purple-400 font-medium">Drop text file here</p>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
             </div>
+          )}
 
-            {/* Upload Overlay */}
-            <AnimatePresence>
-              {dragActive && (
-                <motion.div
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                  className="absolute inset-0 bg-purple-500/20 border-2 border-dashed border-purple-500 rounded-xl flex items-center justify-center"
-                >
-                  <div className="text-center">
-                    <Upload className="h-8 w-8 text-purple-400 mx-auto mb-2" />
-                    <p className="text-purple-400 font-medium">Drop text file here</p>
-                  </div>
-                </motion.div>
+          {/* Live Risk */}
+          <div className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setLiveScoring(!liveScoring)}
+              aria-pressed={liveScoring}
+              className={cn(
+                'flex items-center text-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500 rounded',
+                liveScoring ? 'text-purple-300' : 'text-gray-500 hover:text-gray-300'
               )}
-            </AnimatePresence>
+            >
+              <Activity className="h-4 w-4 mr-1.5" />
+              Live scoring {liveScoring ? 'on' : 'off'}
+            </button>
+            {liveScoring && (
+              <LiveRiskPreview live={liveRisk} thresholds={profile.thresholds} />
+            )}
+          </div>
+
+          <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+            <ProfileSelector
+              selectedProfile={profile.id}
+              onProfileChange={setProfileId}
+              disabled={isAnalyzing}
+            />
+            <div className="flex flex-col items-start md:items-end gap-2">
+              <LanguageSelect
+                value={language}
+                onChange={setLanguage}
+                detectedLanguage={detectedLanguage}
+                disabled={isAnalyzing}
+              />
+              <button
+                type="button"
+                onClick={() => setCompareProviders(!compareProviders)}
+                aria-pressed={compareProviders && canCompare}
+                disabled={isAnalyzing || !canCompare}
+                title={canCompare ? 'Score with every configured provider and average them' : 'Only one provider is configured'}
+                className={cn(
+                  'flex items-center text-sm transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500 rounded disabled:opacity-50 disabled:cursor-not-allowed',
+                  compareProviders && canCompare ? 'text-purple-300' : 'text-gray-500 hover:text-gray-300'
+                )}
+              >
+                <Layers className="h-4 w-4 mr-1.5" />
+                Compare providers {compareProviders && canCompare ? 'on' : 'off'}
+              </button>
+            </div>
           </div>
 
           {/* Validation Message */}
           <AnimatePresence>
-            {!validation.isValid && text.length > 0 && (
+            {!validation.isValid && (isThread ? posts.some(post => post.length > 0) : text.length > 0) && (
               <motion.div
                 initial={{ opacity: 0, height: 0 }}
                 animate={{ opacity: 1, height: 'auto' }}
@@ -222,7 +341,7 @@ export const AnalysisInput: React.FC = () => {
               loading={isAnalyzing}
               className="flex-1 text-lg py-4"
               size="lg"
-              aria-label={isAnalyzing ? 'Analyzing text' : 'Analyze cancel risk'}
+              aria-label={isAnalyzing ? 'Analyzing text' : isThread ? 'Analyze thread cancel risk' : 'Analyze cancel risk'}
             >
               {isAnalyzing ? (
                 <>
@@ -232,13 +351,24 @@ export const AnalysisInput: React.FC = () => {
               ) : (
                 <>
                   <Send className="h-5 w-5 mr-2" />
-                  Analyze Cancel Risk
+                  {isThread ? 'Analyze Thread' : 'Analyze Cancel Risk'}
                 </>
               )}
             </Button>
 
             {/* Secondary Actions */}
             <div className="flex gap-2">
+              {isAnalyzing && (
+                <Button
+                  variant="secondary"
+                  onClick={cancel}
+                  aria-label="Cancel analysis"
+                  className="px-4"
+                >
+                  <X className="h-5 w-5" />
+                </Button>
+              )}
+
               <Button
                 variant="secondary"
                 onClick={() => fileInputRef.current?.click()}
@@ -1,7 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
-  AlertTriangle, 
   Shield, 
   Flame, 
   Copy, 
@@ -15,23 +14,35 @@ import {
   Target,
   Zap,
   RefreshCw,
-  CheckCircle
+  CheckCircle,
+  Highlighter,
+  Globe,
+  Wand2
 } from 'lucide-react';
 import { useStore } from '@/store/useStore';
-import { getRiskColor, getRiskBgColor, getRiskGradient } from '@/utils/analysis';
+import { formatCategoryName } from '@/utils/analysis';
 import { Button } from '@/components/ui/Button';
 import { Card } from '@/components/ui/Card';
 import { Progress } from '@/components/ui/Progress';
 import { Badge } from '@/components/ui/Badge';
+import { WarningBanner } from '@/components/ui/WarningBanner';
 import { RiskMeter } from '@/components/analysis/RiskMeter';
+import { HighlightedText } from '@/components/analysis/HighlightedText';
+import { SentenceBreakdown } from '@/components/analysis/SentenceBreakdown';
+import { ThreadBreakdown } from '@/components/analysis/ThreadBreakdown';
+import { ScoreBreakdownBar } from '@/components/analysis/ScoreBreakdownBar';
+import { SaferRewrite } from '@/components/analysis/SaferRewrite';
+import { ProvenancePanel } from '@/components/analysis/ProvenancePanel';
 import { useAnalysis } from '@/hooks/useAnalysis';
+import { getScoringProfile } from '@/services/analysis/profiles';
+import { getLanguageName } from '@/utils/language';
 import { cn } from '@/lib/utils';
 import Confetti from 'react-confetti';
 import toast from 'react-hot-toast';
 
 export const AnalysisResult: React.FC = () => {
   const { currentAnalysis, showConfetti, setShowConfetti } = useStore();
-  const { analyze } = useAnalysis();
+  const { analyze, analyzeThread } = useAnalysis();
   const [windowSize, setWindowSize] = useState({ width: 0, height: 0 });
   const [isRegenerating, setIsRegenerating] = useState(false);
   const [copiedItem, setCopiedItem] = useState<string | null>(null);
@@ -65,8 +76,19 @@ export const AnalysisResult: React.FC = () => {
     confidence,
     processingTime,
     timestamp,
-    text
+    text,
+    highlights = [],
+    sentences = [],
+    scoreBreakdown,
+    language = 'en',
+    languageSupported = true,
+    thread,
+    ensemble,
+    source,
+    provenance,
+    flaggedPhrases = []
   } = currentAnalysis;
+  const profile = getScoringProfile(currentAnalysis.profile);
 
   const copyToClipboard = async (text: string, type: string) => {
     try {
@@ -105,7 +127,26 @@ export const AnalysisResult: React.FC = () => {
       categories,
       timestamp: new Date(timestamp).toISOString(),
       originalText: text,
+      highlights,
+      sentences,
+      scoreBreakdown,
+      profile: profile.id,
+      language,
+      languageSupported,
+      ensemble,
+      source,
+      provenance,
+      thread: thread && {
+        aggregate: thread.aggregate,
+        posts: thread.posts.map(post => ({
+          text: post.text,
+          score: post.cancelScore,
+          riskLevel: post.riskLevel,
+          provenance: post.provenance,
+        })),
+      },
       recommendations,
+      flaggedPhrases,
       confidence,
       processingTime,
     };
@@ -126,8 +167,14 @@ export const AnalysisResult: React.FC = () => {
     
     setIsRegenerating(true);
     try {
-      await analyze(text);
-      toast.success('Analysis regenerated!');
+      // A cached result would just come back unchanged
+      const config = { profile: profile.id, language, bypassCache: true };
+      const result = thread
+        ? await analyzeThread(thread.posts.map(post => post.text), config)
+        : await analyze(text, config);
+      if (result) {
+        toast.success('Analysis regenerated!');
+      }
     } catch (error) {
       toast.error('Failed to regenerate analysis');
     } finally {
@@ -174,11 +221,43 @@ export const AnalysisResult: React.FC = () => {
             transition={{ delay: 0.2, type: "spring", stiffness: 200 }}
             className="mb-8"
           >
-            <RiskMeter score={cancelScore} animated />
+            <RiskMeter score={cancelScore} thresholds={profile.thresholds} animated />
           </motion.div>
 
+          {/* Per-post Breakdown for threads, per-sentence otherwise */}
+          {thread ? (
+            <ThreadBreakdown thread={thread} className="mb-8" />
+          ) : (
+            <SentenceBreakdown sentences={sentences} className="mb-8" />
+          )}
+
+          {!languageSupported && (
+            <WarningBanner className="mb-6">
+              {getLanguageName(language)} isn't fully supported yet, so this score is less reliable.
+            </WarningBanner>
+          )}
+
+          {ensemble && ensemble.divergentCategories.length > 0 && (
+            <WarningBanner className="mb-6">
+              {ensemble.providers.map(provider => provider.name).join(', ')} disagree on{' '}
+              {ensemble.divergentCategories.map(formatCategoryName).join(', ')}.
+            </WarningBanner>
+          )}
+
+          {source && source !== 'provider' && (
+            <WarningBanner className="mb-6">
+              {source === 'fallback'
+                ? "The toxicity provider couldn't be reached, so these scores are a local estimate."
+                : 'No toxicity provider is configured, so these scores are a local estimate.'}
+            </WarningBanner>
+          )}
+
           {/* Confidence & Processing Time */}
           <div className="flex justify-center space-x-8 mb-6 text-sm text-gray-400">
+            <div className="flex items-center space-x-2">
+              <Globe className="h-4 w-4" />
+              <span>Scored for {profile.name} · {getLanguageName(language)}</span>
+            </div>
             <div className="flex items-center space-x-2">
               <Target className="h-4 w-4" />
               <span>{Math.round(confidence * 100)}% confidence</span>
@@ -245,6 +324,26 @@ export const AnalysisResult: React.FC = () => {
         </div>
       </Card>
 
+      {/* Flagged Phrases */}
+      <Card>
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
+          <Highlighter className="h-6 w-6 text-orange-400 mr-3" />
+          Flagged Phrases
+        </h3>
+        <HighlightedText text={text} highlights={highlights} />
+      </Card>
+
+      {/* Safer Rewrite (single posts only; a thread's combined text is not one post) */}
+      {riskLevel !== 'SAFE' && !thread && (
+        <Card>
+          <h3 className="text-xl font-semibold text-white mb-4 flex items-center">
+            <Wand2 className="h-6 w-6 text-emerald-400 mr-3" />
+            Safer Rewrite
+          </h3>
+          <SaferRewrite analysis={currentAnalysis} />
+        </Card>
+      )}
+
       {/* Roast Section */}
       <Card className="relative overflow-hidden" data-testid="roast-content">
         <div className="flex items-start space-x-4">
@@ -288,6 +387,13 @@ export const AnalysisResult: React.FC = () => {
           <BarChart3 className="h-6 w-6 text-purple-400 mr-3" />
           Risk Breakdown
         </h3>
+        {scoreBreakdown && (
+          <ScoreBreakdownBar
+            breakdown={scoreBreakdown}
+            thresholds={Object.values(profile.thresholds)}
+            className="mb-8"
+          />
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {Object.entries(categories).map(([category, score], index) => (
             <motion.div
@@ -317,6 +423,7 @@ export const AnalysisResult: React.FC = () => {
             </motion.div>
           ))}
         </div>
+        {provenance && <ProvenancePanel provenance={provenance} className="mt-8" />}
       </Card>
 
       {/* Recommendations */}
@@ -339,11 +446,23 @@ export const AnalysisResult: React.FC = () => {
             </motion.div>
           ))}
         </div>
+        {flaggedPhrases.length > 0 && (
+          <div className="mt-6">
+            <h4 className="text-sm text-gray-400 mb-2">Phrases to reconsider</h4>
+            <div className="flex flex-wrap gap-2">
+              {flaggedPhrases.map(phrase => (
+                <Badge key={phrase} variant="warning" size="sm">
+                  "{phrase}"
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
       </Card>
 
       {/* Emergency Apology Generator */}
       <AnimatePresence>
-        {cancelScore > 50 && (
+        {cancelScore > 50 && apology && (
           <motion.div
             initial={{ opacity: 0, height: 0 }}
             animate={{ opacity: 1, height: 'auto' }}
@@ -1,10 +1,35 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { Flame, Moon, Sun, Home, Trophy, History, Menu, X } from 'lucide-react';
+import { Flame, Moon, Sun, Home, Trophy, History, Menu, X, Gauge } from 'lucide-react';
+import type { RateLimitInfo } from '@/types';
 import { useStore } from '@/store/useStore';
+import { useRateLimit } from '@/hooks/useRateLimit';
 import { Button } from '@/components/ui/Button';
 import { cn } from '@/lib/utils';
 
+interface QuotaProps {
+  label: string;
+  info: RateLimitInfo;
+}
+
+const formatCountdown = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const Quota: React.FC<QuotaProps> = ({ label, info }) => {
+  const untilReset = Math.max(0, info.resetTime - Date.now());
+
+  return (
+    <span className={cn(info.remaining === 0 ? 'text-red-400' : 'text-gray-300')}>
+      {info.remaining}/{info.limit} {label}
+      {info.remaining < info.limit && untilReset > 0 && (
+        <span className="text-gray-500"> · {formatCountdown(info.remaining === 0 ? info.retryAfter : untilReset)}</span>
+      )}
+    </span>
+  );
+};
+
 interface HeaderProps {
   currentView: string;
   setCurrentView: (view: string) => void;
@@ -12,6 +37,7 @@ interface HeaderProps {
 
 export const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) => {
   const { theme, setTheme } = useStore();
+  const limits = useRateLimit();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = React.useState(false);
 
   const toggleTheme = () => {
@@ -83,6 +109,17 @@ export const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) =
 
           {/* Actions */}
           <div className="flex items-center space-x-4">
+            {/* Remaining quota; counts down to the next request when empty, otherwise to a full budget */}
+            <div
+              className="hidden lg:flex items-center space-x-2 px-3 py-1.5 rounded-lg bg-gray-800/60 text-xs"
+              aria-label="Remaining requests"
+            >
+              <Gauge className="h-4 w-4 text-purple-400" />
+              <Quota label="analyses" info={limits.analysis} />
+              <span className="text-gray-600">|</span>
+              <Quota label="roasts" info={limits.roast} />
+            </div>
+
             {/* Theme Toggle */}
             <motion.button
               onClick={toggleTheme}
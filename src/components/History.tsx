@@ -1,16 +1,17 @@
 import React from 'react';
 import { motion } from 'framer-motion';
-import { History as HistoryIcon, Trash2, Share2, Calendar, TrendingUp } from 'lucide-react';
+import { History as HistoryIcon, Trash2, Share2, Calendar, TrendingUp, ListOrdered } from 'lucide-react';
 import { useStore } from '@/store/useStore';
 import { getRiskColor, getRiskBgColor } from '@/utils/analysis';
 import { Card } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
 import { format } from 'date-fns';
+import type { AnalysisResult } from '@/types';
 
 const History: React.FC = () => {
   const { analysisHistory, setCurrentAnalysis, clearHistory } = useStore();
 
-  const handleViewAnalysis = (analysis: any) => {
+  const handleViewAnalysis = (analysis: AnalysisResult) => {
     setCurrentAnalysis(analysis);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -160,9 +161,17 @@ const History: React.FC = () => {
                 {/* Content */}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center justify-between mb-2">
-                    <span className={`inline-block px-3 py-1 rounded-full text-xs font-bold ${getRiskBgColor(analysis.riskLevel)} ${getRiskColor(analysis.riskLevel)}`}>
-                      {analysis.riskLevel} RISK
-                    </span>
+                    <div className="flex items-center space-x-2">
+                      <span className={`inline-block px-3 py-1 rounded-full text-xs font-bold ${getRiskBgColor(analysis.riskLevel)} ${getRiskColor(analysis.riskLevel)}`}>
+                        {analysis.riskLevel} RISK
+                      </span>
+                      {analysis.thread && (
+                        <span className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-purple-500/20 text-purple-300">
+                          <ListOrdered className="h-3 w-3 mr-1" />
+                          Thread · {analysis.thread.posts.length} posts
+                        </span>
+                      )}
+                    </div>
                     <span className="text-sm text-gray-400">
                       {format(new Date(analysis.timestamp), 'MMM d, yyyy HH:mm')}
                     </span>
@@ -195,7 +204,7 @@ const History: React.FC = () => {
             </Card>
           </motion.div>
         ))}
-      </div>
+      </motion.div>
     </motion.div>
   );
 };
@@ -1,9 +1,39 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, Info } from 'lucide-react';
+import { ChevronDown, Info, Copy, Pencil, Trash2, Plus, Upload, Download } from 'lucide-react';
 import { cn } from '@/utils/cn';
-import type { RoastMode } from '@/types/roast';
-import { ROAST_MODE_CONFIGS } from '@/utils/promptEngineering';
+import type { BuiltInRoastMode, CustomRoastModeId, RoastMode, RoastModeConfig } from '@/types/roast';
+import { ROAST_MODE_CONFIGS, getRoastModeConfig } from '@/utils/promptEngineering';
+import {
+  createCustomRoastModeId,
+  duplicateRoastMode,
+  exportRoastModes,
+  importRoastModes,
+  isCustomRoastMode,
+  ROAST_MODE_COLORS
+} from '@/utils/roastModes';
+import { useStore, useCustomRoastModes } from '@/store/useStore';
+import { RoastModeEditor } from './RoastModeEditor';
+import toast from 'react-hot-toast';
+
+// What the editor is open on; `id` is set when saving replaces an existing custom mode
+interface EditorState {
+  title: string;
+  initial: RoastModeConfig;
+  id?: CustomRoastModeId | undefined;
+}
+
+const BLANK_MODE: RoastModeConfig = {
+  name: '',
+  description: '',
+  icon: '\u2728',
+  color: ROAST_MODE_COLORS[0],
+  systemPrompt: '',
+  examples: [],
+  intensity: 5,
+  maxTokens: 100,
+  temperature: 0.8,
+};
 
 interface ModeSelectorProps {
   selectedMode: RoastMode;
@@ -20,14 +50,79 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
 }) => {
   const [isOpen, setIsOpen] = React.useState(false);
   const [hoveredMode, setHoveredMode] = React.useState<RoastMode | null>(null);
+  const [editor, setEditor] = React.useState<EditorState | null>(null);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
 
-  const selectedConfig = ROAST_MODE_CONFIGS[selectedMode];
+  const customModes = useCustomRoastModes();
+  const saveCustomRoastMode = useStore((state) => state.saveCustomRoastMode);
+  const deleteCustomRoastMode = useStore((state) => state.deleteCustomRoastMode);
+
+  const modes: [RoastMode, RoastModeConfig][] = [
+    ...(Object.entries(ROAST_MODE_CONFIGS) as [BuiltInRoastMode, RoastModeConfig][]),
+    ...customModes.map((mode): [RoastMode, RoastModeConfig] => [mode.id, mode]),
+  ];
+  const selectedConfig = getRoastModeConfig(selectedMode, customModes);
+  const hoveredExamples = hoveredMode ? getRoastModeConfig(hoveredMode, customModes).examples : [];
 
   const handleModeSelect = (mode: RoastMode) => {
     onModeChange(mode);
     setIsOpen(false);
   };
 
+  const openEditor = (state: EditorState) => {
+    setEditor(state);
+    setIsOpen(false);
+  };
+
+  const handleSave = (config: RoastModeConfig) => {
+    const id = editor?.id ?? createCustomRoastModeId();
+    saveCustomRoastMode({ ...config, id, updatedAt: Date.now() });
+    onModeChange(id);
+    setEditor(null);
+    toast.success(`${config.name} saved`);
+  };
+
+  const handleDuplicate = (config: RoastModeConfig) => {
+    const copy = duplicateRoastMode(config, modes.map(([, mode]) => mode.name));
+    openEditor({ title: 'Duplicate Mode', initial: copy, id: copy.id });
+  };
+
+  const handleDelete = (id: CustomRoastModeId, name: string) => {
+    if (!window.confirm(`Delete the "${name}" mode?`)) return;
+
+    deleteCustomRoastMode(id);
+    if (selectedMode === id) {
+      onModeChange('genz');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportRoastModes(customModes)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `scandalscope-roast-modes-${Date.now()}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Cleared so picking the same file again still fires a change
+    e.target.value = '';
+    if (!file) return;
+
+    const { modes: imported, errors } = importRoastModes(await file.text());
+    imported.forEach(saveCustomRoastMode);
+
+    if (imported.length > 0) {
+      toast.success(`Imported ${imported.length} roast mode${imported.length === 1 ? '' : 's'}`);
+    }
+    if (errors.length > 0) {
+      toast.error(`Some modes could not be imported:\n${errors.join('\n')}`);
+    }
+  };
+
   return (
     <div className={cn("relative", className)}>
       {/* Selected Mode Display */}
@@ -79,52 +174,118 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
             className="absolute top-full left-0 right-0 mt-2 z-50"
           >
             <div className="bg-gray-800/95 backdrop-blur-xl border border-gray-700 rounded-xl shadow-xl overflow-hidden">
-              {Object.entries(ROAST_MODE_CONFIGS).map(([mode, config]) => (
-                <motion.button
+              {modes.map(([mode, config]) => (
+                <div
                   key={mode}
-                  onClick={() => handleModeSelect(mode as RoastMode)}
-                  onHoverStart={() => setHoveredMode(mode as RoastMode)}
-                  onHoverEnd={() => setHoveredMode(null)}
                   className={cn(
-                    "w-full p-4 flex items-center space-x-3",
-                    "hover:bg-gray-700/50 transition-colors duration-200",
+                    "flex items-center pr-2",
                     "border-b border-gray-700/50 last:border-b-0",
                     selectedMode === mode && "bg-gray-700/30"
                   )}
-                  whileHover={{ x: 4 }}
                 >
-                  <div className={cn(
-                    "w-8 h-8 rounded-lg flex items-center justify-center text-lg",
-                    `bg-gradient-to-r ${config.color}`
-                  )}>
-                    {config.icon}
-                  </div>
-                  
-                  <div className="flex-1 text-left">
-                    <div className="font-medium text-white">
-                      {config.name}
+                  <motion.button
+                    onClick={() => handleModeSelect(mode)}
+                    onHoverStart={() => setHoveredMode(mode)}
+                    onHoverEnd={() => setHoveredMode(null)}
+                    className={cn(
+                      "flex-1 p-4 flex items-center space-x-3",
+                      "hover:bg-gray-700/50 transition-colors duration-200"
+                    )}
+                    whileHover={{ x: 4 }}
+                  >
+                    <div className={cn(
+                      "w-8 h-8 rounded-lg flex items-center justify-center text-lg",
+                      `bg-gradient-to-r ${config.color}`
+                    )}>
+                      {config.icon}
                     </div>
-                    <div className="text-sm text-gray-400">
-                      {config.description}
+
+                    <div className="flex-1 text-left">
+                      <div className="font-medium text-white">
+                        {config.name}
+                      </div>
+                      <div className="text-sm text-gray-400">
+                        {config.description}
+                      </div>
                     </div>
-                  </div>
-                  
-                  <div className="flex items-center space-x-2">
-                    <div className="text-xs text-gray-500">
-                      Intensity: {config.intensity}/10
+
+                    <div className="flex items-center space-x-2">
+                      <div className="text-xs text-gray-500">
+                        Intensity: {config.intensity}/10
+                      </div>
+                      {hoveredMode === mode && (
+                        <motion.div
+                          initial={{ scale: 0 }}
+                          animate={{ scale: 1 }}
+                          className="text-purple-400"
+                        >
+                          <Info className="h-4 w-4" />
+                        </motion.div>
+                      )}
                     </div>
-                    {hoveredMode === mode && (
-                      <motion.div
-                        initial={{ scale: 0 }}
-                        animate={{ scale: 1 }}
-                        className="text-purple-400"
-                      >
-                        <Info className="h-4 w-4" />
-                      </motion.div>
+                  </motion.button>
+
+                  {/* Built-in modes can only be copied; custom ones can be edited and deleted too */}
+                  <div className="flex items-center">
+                    <button
+                      onClick={() => handleDuplicate(config)}
+                      aria-label={`Duplicate ${config.name}`}
+                      title="Duplicate"
+                      className="p-2 text-gray-400 hover:text-white transition-colors"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </button>
+                    {isCustomRoastMode(mode) && (
+                      <>
+                        <button
+                          onClick={() => openEditor({ title: 'Edit Mode', initial: config, id: mode })}
+                          aria-label={`Edit ${config.name}`}
+                          title="Edit"
+                          className="p-2 text-gray-400 hover:text-white transition-colors"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(mode, config.name)}
+                          aria-label={`Delete ${config.name}`}
+                          title="Delete"
+                          className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </>
                     )}
                   </div>
-                </motion.button>
+                </div>
               ))}
+
+              {/* Custom mode management */}
+              <div className="flex items-center justify-between p-2 bg-gray-900/40">
+                <button
+                  onClick={() => openEditor({ title: 'New Mode', initial: BLANK_MODE })}
+                  className="flex items-center px-3 py-1.5 text-sm text-purple-300 hover:text-white transition-colors"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  New mode
+                </button>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors"
+                  >
+                    <Upload className="h-4 w-4 mr-1" />
+                    Import
+                  </button>
+                  <button
+                    onClick={handleExport}
+                    disabled={customModes.length === 0}
+                    className="flex items-center px-3 py-1.5 text-sm text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Download className="h-4 w-4 mr-1" />
+                    Export
+                  </button>
+                </div>
+              </div>
             </div>
           </motion.div>
         )}
@@ -132,7 +293,7 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
 
       {/* Mode Examples */}
       <AnimatePresence>
-        {hoveredMode && (
+        {hoveredMode && hoveredExamples.length > 0 && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -140,10 +301,10 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
             className="mt-4 p-4 bg-gray-800/30 rounded-lg border border-gray-700/50"
           >
             <h4 className="text-sm font-medium text-white mb-2">
-              Example {ROAST_MODE_CONFIGS[hoveredMode].name} Responses:
+              Example {getRoastModeConfig(hoveredMode, customModes).name} Responses:
             </h4>
             <div className="space-y-2">
-              {ROAST_MODE_CONFIGS[hoveredMode].examples.map((example, index) => (
+              {hoveredExamples.map((example, index) => (
                 <div
                   key={index}
                   className="text-sm text-gray-300 italic p-2 bg-gray-900/30 rounded"
@@ -156,6 +317,23 @@ export const ModeSelector: React.FC<ModeSelectorProps> = ({
         )}
       </AnimatePresence>
 
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        onChange={handleImport}
+        className="hidden"
+      />
+
+      {editor && (
+        <RoastModeEditor
+          title={editor.title}
+          initial={editor.initial}
+          onSave={handleSave}
+          onClose={() => setEditor(null)}
+        />
+      )}
+
       {/* Click outside to close */}
       {isOpen && (
         <div
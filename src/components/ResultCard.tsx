@@ -9,14 +9,16 @@ import {
   BarChart3,
   Clock,
   Tag,
-  RefreshCw
+  RefreshCw,
+  Square
 } from 'lucide-react';
 import { Button } from '@/components/ui/Button';
 import { Badge } from '@/components/ui/Badge';
 import { Card } from '@/components/ui/Card';
 import { cn } from '@/utils/cn';
 import type { RoastResult } from '@/types/roast';
-import { ROAST_MODE_CONFIGS } from '@/utils/promptEngineering';
+import { getRoastModeConfig } from '@/utils/promptEngineering';
+import { useCustomRoastModes } from '@/store/useStore';
 import { formatDistanceToNow } from 'date-fns';
 import toast from 'react-hot-toast';
 
@@ -27,6 +29,8 @@ interface ResultCardProps {
   className?: string;
   showActions?: boolean;
   compact?: boolean;
+  isStreaming?: boolean;    // `result.content` is still arriving
+  onCancel?: () => void;    // Shown instead of the actions while streaming
 }
 
 export const ResultCard: React.FC<ResultCardProps> = ({
@@ -35,13 +39,16 @@ export const ResultCard: React.FC<ResultCardProps> = ({
   onShare,
   className,
   showActions = true,
-  compact = false
+  compact = false,
+  isStreaming = false,
+  onCancel
 }) => {
   const [isLiked, setIsLiked] = useState(false);
   const [likes, setLikes] = useState(Math.floor(Math.random() * 50) + 10);
   const [isExpanded, setIsExpanded] = useState(!compact);
 
-  const modeConfig = ROAST_MODE_CONFIGS[result.mode];
+  const customModes = useCustomRoastModes();
+  const modeConfig = getRoastModeConfig(result.mode, customModes);
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(result.content);
@@ -123,7 +130,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({
           </div>
         </div>
         
-        {!compact && (
+        {!compact && !isStreaming && (
           <div className="flex items-center space-x-2">
             <Badge variant="info" size="sm">
               {Math.round(result.confidence * 100)}% confidence
@@ -139,8 +146,14 @@ export const ResultCard: React.FC<ResultCardProps> = ({
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           transition={{ delay: 0.2 }}
+          aria-live={isStreaming ? 'polite' : undefined}
+          aria-busy={isStreaming}
         >
-          "{result.content}"
+          "{result.content}
+          {isStreaming && (
+            <span className="inline-block w-2 h-5 ml-0.5 align-middle bg-purple-400 animate-pulse" aria-hidden="true" />
+          )}
+          "
         </motion.div>
       </div>
 
@@ -172,7 +185,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({
       )}
 
       {/* Tags */}
-      {result.tags.length > 0 && (
+      {result.tags.length > 0 && !isStreaming && (
         <div className="mb-4">
           <div className="flex items-center space-x-2 mb-2">
             <Tag className="h-4 w-4 text-gray-400" />
@@ -193,8 +206,23 @@ export const ResultCard: React.FC<ResultCardProps> = ({
         </div>
       )}
 
+      {/* Cancel while streaming */}
+      {isStreaming && onCancel && (
+        <div className="flex justify-end pt-4 border-t border-gray-700/50">
+          <Button
+            onClick={onCancel}
+            variant="ghost"
+            size="sm"
+            aria-label="Cancel roast"
+          >
+            <Square className="h-4 w-4 mr-2" />
+            Stop
+          </Button>
+        </div>
+      )}
+
       {/* Actions */}
-      {showActions && (
+      {showActions && !isStreaming && (
         <div className="flex items-center justify-between pt-4 border-t border-gray-700/50">
           <div className="flex items-center space-x-4">
             <motion.button
@@ -5,13 +5,15 @@ import { Button } from '@/components/ui/Button';
 import { cn } from '@/utils/cn';
 import type { RoastConfig, RoastMode } from '@/types/roast';
 import { useRoastGenerator } from '@/hooks/useRoastGenerator';
-import { ROAST_MODE_CONFIGS } from '@/utils/promptEngineering';
+import { getRoastModeConfig } from '@/utils/promptEngineering';
+import { useCustomRoastModes } from '@/store/useStore';
 import toast from 'react-hot-toast';
 
 interface RoastButtonProps {
   text: string;
   selectedMode: RoastMode;
   intensity: number;
+  language?: string | undefined; // The analysis language, if already known
   disabled?: boolean;
   className?: string;
   onRoastGenerated?: (roast: any) => void;
@@ -21,6 +23,7 @@ export const RoastButton: React.FC<RoastButtonProps> = ({
   text,
   selectedMode,
   intensity,
+  language,
   disabled = false,
   className,
   onRoastGenerated
@@ -35,7 +38,8 @@ export const RoastButton: React.FC<RoastButtonProps> = ({
       mode: selectedMode,
       intensity,
       includeEmojis: true,
-      maxLength: 200
+      maxLength: 200,
+      language
     };
 
     const result = await generateRoast(text, config);
@@ -81,7 +85,8 @@ export const RoastButton: React.FC<RoastButtonProps> = ({
     toast.success('Roast copied!');
   };
 
-  const modeConfig = ROAST_MODE_CONFIGS[selectedMode];
+  const customModes = useCustomRoastModes();
+  const modeConfig = getRoastModeConfig(selectedMode, customModes);
   const isDisabled = disabled || !text.trim() || text.length < 10;
 
   return (
@@ -12,11 +12,13 @@ import toast from 'react-hot-toast';
 
 interface RoastGeneratorProps {
   text: string;
+  language?: string | undefined; // The analysis language, if already known
   className?: string;
 }
 
 export const RoastGenerator: React.FC<RoastGeneratorProps> = ({
   text,
+  language,
   className
 }) => {
   const [selectedMode, setSelectedMode] = useState<RoastMode>('genz');
@@ -28,8 +30,11 @@ export const RoastGenerator: React.FC<RoastGeneratorProps> = ({
     currentRoast, 
     generationHistory, 
     isGenerating,
+    isStreaming,
+    streamingContent,
     generateRoast,
     regenerateRoast,
+    cancelGeneration,
     getStats 
   } = useRoastGenerator();
 
@@ -46,7 +51,8 @@ export const RoastGenerator: React.FC<RoastGeneratorProps> = ({
         mode: selectedMode,
         intensity,
         includeEmojis: true,
-        maxLength: 200
+        maxLength: 200,
+        language
       };
 
       const result = await generateRoast(text, config);
@@ -215,9 +221,27 @@ export const RoastGenerator: React.FC<RoastGeneratorProps> = ({
         </div>
       </Card>
 
+      {/* Roast as it streams in */}
+      {isStreaming && (
+        <ResultCard
+          result={{
+            id: 'streaming',
+            content: streamingContent,
+            mode: selectedMode,
+            timestamp: Date.now(),
+            originalText: text,
+            confidence: 0,
+            tags: []
+          }}
+          isStreaming
+          onCancel={cancelGeneration}
+          compact
+        />
+      )}
+
       {/* Current Result */}
       <AnimatePresence>
-        {currentRoast && (
+        {currentRoast && !isStreaming && (
           <motion.div
             initial={{ opacity: 0, y: 20 }}
             animate={{ opacity: 1, y: 0 }}
@@ -0,0 +1,211 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Card } from '@/components/ui/Card';
+import { cn } from '@/utils/cn';
+import type { RoastModeConfig } from '@/types/roast';
+import { validateRoastModeConfig, ROAST_MODE_COLORS, ROAST_MODE_LIMITS } from '@/utils/roastModes';
+
+interface RoastModeEditorProps {
+  initial: RoastModeConfig;
+  title: string;
+  onSave: (config: RoastModeConfig) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 transition-colors';
+
+export const RoastModeEditor: React.FC<RoastModeEditorProps> = ({
+  initial,
+  title,
+  onSave,
+  onClose
+}) => {
+  const [draft, setDraft] = useState<RoastModeConfig>(initial);
+  // Edited as one example per line
+  const [examples, setExamples] = useState(initial.examples.join('\n'));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = <K extends keyof RoastModeConfig>(field: K, value: RoastModeConfig[K]) => {
+    setDraft(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const { config, errors: validationErrors } = validateRoastModeConfig({ ...draft, examples: examples.split('\n') });
+    if (!config) {
+      setErrors(validationErrors);
+      return;
+    }
+    onSave(config);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="absolute inset-0 bg-black/50 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95, y: 20 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        exit={{ opacity: 0, scale: 0.95, y: 20 }}
+        className="relative w-full max-w-lg max-h-full overflow-y-auto"
+      >
+        <Card className="relative">
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close"
+            className="absolute top-4 right-4 p-2 text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+
+          <h2 className="text-xl font-bold text-white mb-4">{title}</h2>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="flex space-x-3">
+              <label className="w-20 space-y-1 text-sm font-medium text-gray-300">
+                <span>Icon</span>
+                <input
+                  type="text"
+                  value={draft.icon}
+                  onChange={(e) => update('icon', e.target.value)}
+                  maxLength={ROAST_MODE_LIMITS.icon}
+                  className={cn(inputClass, 'text-center text-lg')}
+                />
+              </label>
+              <label className="flex-1 space-y-1 text-sm font-medium text-gray-300">
+                <span>Name</span>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => update('name', e.target.value)}
+                  maxLength={ROAST_MODE_LIMITS.name}
+                  placeholder="Company Voice"
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            <label className="block space-y-1 text-sm font-medium text-gray-300">
+              <span>Description</span>
+              <input
+                type="text"
+                value={draft.description}
+                onChange={(e) => update('description', e.target.value)}
+                maxLength={ROAST_MODE_LIMITS.description}
+                className={inputClass}
+              />
+            </label>
+
+            <fieldset className="space-y-1">
+              <legend className="text-sm font-medium text-gray-300">Color</legend>
+              <div className="flex flex-wrap gap-2">
+                {ROAST_MODE_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => update('color', color)}
+                    aria-label={color}
+                    aria-pressed={draft.color === color}
+                    className={cn(
+                      'w-8 h-8 rounded-lg bg-gradient-to-r',
+                      color,
+                      draft.color === color && 'ring-2 ring-white ring-offset-2 ring-offset-gray-900'
+                    )}
+                  />
+                ))}
+              </div>
+            </fieldset>
+
+            <label className="block space-y-1 text-sm font-medium text-gray-300">
+              <span>System prompt</span>
+              <textarea
+                value={draft.systemPrompt}
+                onChange={(e) => update('systemPrompt', e.target.value)}
+                maxLength={ROAST_MODE_LIMITS.systemPrompt}
+                rows={5}
+                placeholder="You are our brand's social media voice. Be dry, kind and never sarcastic about customers."
+                className={inputClass}
+              />
+            </label>
+
+            <label className="block space-y-1 text-sm font-medium text-gray-300">
+              <span>Examples (one per line, up to {ROAST_MODE_LIMITS.examples})</span>
+              <textarea
+                value={examples}
+                onChange={(e) => setExamples(e.target.value)}
+                rows={3}
+                className={inputClass}
+              />
+            </label>
+
+            <div className="grid grid-cols-3 gap-3">
+              <label className="space-y-1 text-sm font-medium text-gray-300">
+                <span>Intensity</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={draft.intensity}
+                  onChange={(e) => update('intensity', e.target.valueAsNumber)}
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1 text-sm font-medium text-gray-300">
+                <span>Temperature</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={ROAST_MODE_LIMITS.maxTemperature}
+                  step={0.1}
+                  value={draft.temperature}
+                  onChange={(e) => update('temperature', e.target.valueAsNumber)}
+                  className={inputClass}
+                />
+              </label>
+              <label className="space-y-1 text-sm font-medium text-gray-300">
+                <span>Max tokens</span>
+                <input
+                  type="number"
+                  min={ROAST_MODE_LIMITS.minTokens}
+                  max={ROAST_MODE_LIMITS.maxTokens}
+                  value={draft.maxTokens}
+                  onChange={(e) => update('maxTokens', e.target.valueAsNumber)}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+
+            {errors.length > 0 && (
+              <ul className="p-3 space-y-1 text-sm text-red-300 bg-red-500/20 border border-red-500/30 rounded-lg">
+                {errors.map(error => (
+                  <li key={error}>{error}</li>
+                ))}
+              </ul>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="ghost" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                Save mode
+              </Button>
+            </div>
+          </form>
+        </Card>
+      </motion.div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { cn } from '@/lib/utils';
+import { getCategoryUnderlineColor, getCategoryTextColor, formatCategoryName } from '@/utils/analysis';
+import type { AnalysisCategories, RiskHighlight } from '@/types';
+
+interface HighlightedTextProps {
+  text: string;
+  highlights: readonly RiskHighlight[];
+  className?: string;
+}
+
+type Segment =
+  | { type: 'plain'; text: string; start: number }
+  | { type: 'highlight'; text: string; start: number; highlights: RiskHighlight[] };
+
+/**
+ * Split text into plain and highlighted segments. Highlights sharing a span are
+ * grouped; a highlight overlapping an earlier span is dropped so segments never nest.
+ */
+function buildSegments(text: string, highlights: readonly RiskHighlight[]): Segment[] {
+  const sorted = [...highlights].sort((a, b) => a.start - b.start || b.end - a.end);
+  const segments: Segment[] = [];
+  let cursor = 0;
+
+  for (const highlight of sorted) {
+    const previous = segments[segments.length - 1];
+
+    if (
+      previous?.type === 'highlight' &&
+      previous.start === highlight.start &&
+      previous.start + previous.text.length === highlight.end
+    ) {
+      previous.highlights.push(highlight);
+      continue;
+    }
+
+    if (highlight.start < cursor || highlight.end > text.length) continue;
+
+    if (highlight.start > cursor) {
+      segments.push({ type: 'plain', text: text.slice(cursor, highlight.start), start: cursor });
+    }
+
+    segments.push({
+      type: 'highlight',
+      text: text.slice(highlight.start, highlight.end),
+      start: highlight.start,
+      highlights: [highlight],
+    });
+    cursor = highlight.end;
+  }
+
+  if (cursor < text.length) {
+    segments.push({ type: 'plain', text: text.slice(cursor), start: cursor });
+  }
+
+  return segments;
+}
+
+export const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  highlights,
+  className
+}) => {
+  const segments = useMemo(() => buildSegments(text, highlights), [text, highlights]);
+
+  const legend = useMemo(() => {
+    const categories = new Set<keyof AnalysisCategories>();
+    highlights.forEach(highlight => categories.add(highlight.category));
+    return Array.from(categories);
+  }, [highlights]);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <p className="text-gray-200 leading-relaxed text-lg whitespace-pre-wrap break-words">
+        {segments.map(segment => {
+          if (segment.type === 'plain') {
+            return <React.Fragment key={segment.start}>{segment.text}</React.Fragment>;
+          }
+
+          const primary = segment.highlights.reduce((top, highlight) =>
+            highlight.contribution > top.contribution ? highlight : top
+          );
+          const description = segment.highlights
+            .map(highlight => `${formatCategoryName(highlight.category)} +${highlight.contribution}`)
+            .join(', ');
+
+          return (
+            <mark
+              key={segment.start}
+              className={cn(
+                'bg-transparent text-inherit underline decoration-wavy decoration-2 underline-offset-4 cursor-help',
+                getCategoryUnderlineColor(primary.category)
+              )}
+              title={description}
+              aria-label={`${segment.text}: ${description}`}
+            >
+              {segment.text}
+            </mark>
+          );
+        })}
+      </p>
+
+      {legend.length > 0 ? (
+        <div className="flex flex-wrap gap-3 text-xs">
+          {legend.map(category => (
+            <span
+              key={category}
+              className={cn('flex items-center space-x-1 capitalize', getCategoryTextColor(category))}
+            >
+              <span className="inline-block w-3 border-b-2 border-current" />
+              <span>{formatCategoryName(category)}</span>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">No risky phrases found.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { SUPPORTED_LANGUAGES } from '@/services/analysis/lexicon';
+import { getLanguageName } from '@/utils/language';
+
+interface LanguageSelectProps {
+  value: string;                // ISO 639-1 code or 'auto'
+  detectedLanguage?: string | undefined; // Shown next to the auto option
+  onChange: (language: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const LanguageSelect: React.FC<LanguageSelectProps> = ({
+  value,
+  detectedLanguage,
+  onChange,
+  disabled = false,
+  className
+}) => (
+  <label className={cn('flex items-center space-x-2 text-sm text-gray-400', className)}>
+    <Languages className="h-4 w-4" aria-hidden="true" />
+    <span>Language:</span>
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="bg-gray-800/50 border border-gray-700 rounded-lg px-2 py-1 text-gray-200 focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+    >
+      <option value="auto">
+        {detectedLanguage ? `Auto (${getLanguageName(detectedLanguage)})` : 'Auto-detect'}
+      </option>
+      {SUPPORTED_LANGUAGES.map(language => (
+        <option key={language} value={language}>
+          {getLanguageName(language)}
+        </option>
+      ))}
+    </select>
+  </label>
+);
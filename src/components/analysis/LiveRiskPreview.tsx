@@ -0,0 +1,76 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Activity } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { RiskMeter } from '@/components/analysis/RiskMeter';
+import { getCategoryTextColor, formatCategoryName } from '@/utils/analysis';
+import type { LiveRisk } from '@/hooks/useLiveRisk';
+import type { RiskThresholds } from '@/types';
+
+interface LiveRiskPreviewProps {
+  live: LiveRisk | null;
+  thresholds: RiskThresholds;
+  className?: string;
+}
+
+const MAX_CHIPS = 4;
+
+export const LiveRiskPreview: React.FC<LiveRiskPreviewProps> = ({
+  live,
+  thresholds,
+  className
+}) => {
+  return (
+    <div
+      className={cn('flex items-center gap-4 rounded-xl border border-gray-700/50 bg-gray-800/30 p-3', className)}
+      aria-live="polite"
+      data-testid="live-risk"
+    >
+      {live ? (
+        <>
+          <RiskMeter
+            score={live.score}
+            thresholds={thresholds}
+            animated={false}
+            size="sm"
+            showLabel={false}
+            className="w-20 h-20 flex-shrink-0 mx-0"
+          />
+          <div className="min-w-0 space-y-2">
+            <div className="flex items-center text-xs text-gray-400">
+              <Activity className="h-3 w-3 mr-1" />
+              Live estimate · scored locally
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <AnimatePresence initial={false}>
+                {live.categories.slice(0, MAX_CHIPS).map(({ category, value }) => (
+                  <motion.span
+                    key={category}
+                    layout
+                    initial={{ opacity: 0, scale: 0.8 }}
+                    animate={{ opacity: 1, scale: 1 }}
+                    exit={{ opacity: 0, scale: 0.8 }}
+                    className={cn(
+                      'px-2 py-0.5 rounded-full bg-gray-900/60 border border-gray-700 text-xs capitalize',
+                      getCategoryTextColor(category)
+                    )}
+                  >
+                    {formatCategoryName(category)} {value}
+                  </motion.span>
+                ))}
+              </AnimatePresence>
+              {live.categories.length === 0 && (
+                <span className="text-xs text-emerald-400">Nothing flagged so far</span>
+              )}
+            </div>
+          </div>
+        </>
+      ) : (
+        <div className="flex items-center text-sm text-gray-500">
+          <Activity className="h-4 w-4 mr-2" />
+          Keep typing for a live risk estimate
+        </div>
+      )}
+    </div>
+  );
+};
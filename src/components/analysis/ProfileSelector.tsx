@@ -0,0 +1,59 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { SCORING_PROFILES } from '@/services/analysis/profiles';
+import type { ScoringProfileId } from '@/types';
+
+interface ProfileSelectorProps {
+  selectedProfile: ScoringProfileId;
+  onProfileChange: (profile: ScoringProfileId) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const ProfileSelector: React.FC<ProfileSelectorProps> = ({
+  selectedProfile,
+  onProfileChange,
+  disabled = false,
+  className
+}) => {
+  const selected = SCORING_PROFILES[selectedProfile];
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div
+        className="flex flex-wrap items-center gap-2"
+        role="radiogroup"
+        aria-label="Platform scoring profile"
+      >
+        <span className="text-sm text-gray-400 mr-1">Posting to:</span>
+        {Object.values(SCORING_PROFILES).map(profile => {
+          const isSelected = profile.id === selectedProfile;
+
+          return (
+            <motion.button
+              key={profile.id}
+              type="button"
+              role="radio"
+              aria-checked={isSelected}
+              onClick={() => onProfileChange(profile.id)}
+              disabled={disabled}
+              className={cn(
+                'px-3 py-1 rounded-full border text-sm font-medium transition-colors duration-200',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                isSelected
+                  ? 'bg-purple-500/20 text-purple-300 border-purple-500/50'
+                  : 'bg-gray-800/50 text-gray-400 border-gray-700 hover:text-white hover:border-gray-600'
+              )}
+              whileTap={{ scale: disabled ? 1 : 0.95 }}
+            >
+              {profile.name}
+            </motion.button>
+          );
+        })}
+      </div>
+      <p className="text-xs text-gray-500">{selected.description}</p>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { FileSearch } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { formatCategoryName } from '@/utils/analysis';
+import { getScoringProfile } from '@/services/analysis/profiles';
+import type { AnalysisProvenance, AnalysisSource } from '@/types';
+
+interface ProvenancePanelProps {
+  provenance: AnalysisProvenance;
+  className?: string;
+}
+
+const SOURCE_LABELS: Record<AnalysisSource, { label: string; color: string }> = {
+  provider: { label: 'Provider', color: 'text-emerald-400' },
+  fallback: { label: 'Fallback', color: 'text-yellow-400' },
+  mock: { label: 'Mock', color: 'text-yellow-400' },
+};
+
+export const ProvenancePanel: React.FC<ProvenancePanelProps> = ({
+  provenance,
+  className
+}) => {
+  const { providers, stageTimings, scoreSource, roastSource } = provenance;
+  const rows: [string, React.ReactNode][] = [
+    ['Engine', provenance.engineVersion],
+    ['Lexicon', provenance.lexiconVersion],
+    ['Roast prompt', provenance.roastPromptVersion ?? 'Template'],
+    ['Profile', getScoringProfile(provenance.profile).name],
+    ['Scores', <span className={SOURCE_LABELS[scoreSource].color}>{SOURCE_LABELS[scoreSource].label}</span>],
+    ['Roast', <span className={SOURCE_LABELS[roastSource].color}>{SOURCE_LABELS[roastSource].label}</span>],
+  ];
+  if (provenance.roastAttempts) {
+    rows.push(['Roast attempts', provenance.roastAttempts]);
+  }
+
+  return (
+    <details className={cn('text-left text-sm rounded-lg border border-gray-700/50 bg-gray-800/30', className)}>
+      <summary className="flex items-center cursor-pointer px-4 py-3 text-gray-300 font-medium">
+        <FileSearch className="h-4 w-4 mr-2 text-purple-400" />
+        How this score was produced
+      </summary>
+
+      <div className="px-4 pb-4 space-y-4">
+        <dl className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {rows.map(([label, value]) => (
+            <div key={label}>
+              <dt className="text-xs text-gray-500 uppercase tracking-wide">{label}</dt>
+              <dd className="text-gray-200">{value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <div>
+          <h4 className="text-xs text-gray-500 uppercase tracking-wide mb-2">Providers</h4>
+          <ul className="space-y-1">
+            {providers.map(provider => (
+              <li key={provider.id} className="text-gray-300">
+                <span className="text-white">{provider.name}</span>
+                {provider.model && <span className="text-gray-500"> ({provider.model})</span>}
+                {': '}
+                {provider.categories.map(formatCategoryName).join(', ')}
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div>
+          <h4 className="text-xs text-gray-500 uppercase tracking-wide mb-2">Stage timings</h4>
+          <p className="text-gray-400">
+            {stageTimings.map(({ stage, ms }) => `${stage} ${ms}ms`).join(' · ')}
+          </p>
+        </div>
+      </div>
+    </details>
+  );
+};
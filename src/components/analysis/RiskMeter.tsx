@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { cn } from '@/lib/utils';
-import type { RiskLevel } from '@/types';
+import { getRiskLevel } from '@/services/analysis/scoring';
+import type { RiskLevel, RiskThresholds } from '@/types';
 
 interface RiskMeterProps {
   score: number;
+  thresholds?: RiskThresholds;
   animated?: boolean;
   size?: 'sm' | 'md' | 'lg';
   showLabel?: boolean;
@@ -13,6 +15,7 @@ interface RiskMeterProps {
 
 export const RiskMeter: React.FC<RiskMeterProps> = ({
   score,
+  thresholds,
   animated = true,
   size = 'md',
   showLabel = true,
@@ -39,14 +42,6 @@ export const RiskMeter: React.FC<RiskMeterProps> = ({
     }
   }, [score, animated, isRevealed]);
 
-  const getRiskLevel = (score: number): RiskLevel => {
-    if (score < 20) return 'SAFE';
-    if (score < 40) return 'MILD';
-    if (score < 60) return 'MODERATE';
-    if (score < 80) return 'HIGH';
-    return 'EXTREME';
-  };
-
   const getRiskColor = (level: RiskLevel): string => {
     const colors = {
       SAFE: '#10B981',     // emerald-500
@@ -80,7 +75,7 @@ export const RiskMeter: React.FC<RiskMeterProps> = ({
     }
   };
 
-  const riskLevel = getRiskLevel(displayScore);
+  const riskLevel = getRiskLevel(displayScore, thresholds);
   const riskColor = getRiskColor(riskLevel);
   const sizeClasses = getSizeClasses();
   
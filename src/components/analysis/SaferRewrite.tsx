@@ -0,0 +1,155 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowRight, Copy, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { useSaferRewrite } from '@/hooks/useSaferRewrite';
+import { RISK_LEVELS } from '@/services/analysis/scoring';
+import { getRiskBadgeColor, getRiskColor } from '@/utils/analysis';
+import { diffWords } from '@/utils/diff';
+import type { AnalysisResult, RiskLevel } from '@/types';
+import toast from 'react-hot-toast';
+
+interface SaferRewriteProps {
+  analysis: AnalysisResult;
+  className?: string;
+}
+
+const ScoreChip: React.FC<{ label: string; score: number; riskLevel: RiskLevel }> = ({
+  label,
+  score,
+  riskLevel
+}) => (
+  <div className="text-center">
+    <div className="text-xs text-gray-400 uppercase tracking-wide mb-1">{label}</div>
+    <div className={cn('text-3xl font-bold', getRiskColor(riskLevel))}>{score}</div>
+    <span className={cn(
+      'inline-block mt-1 px-2 py-0.5 rounded-full border text-xs font-bold',
+      getRiskBadgeColor(riskLevel)
+    )}>
+      {riskLevel}
+    </span>
+  </div>
+);
+
+export const SaferRewrite: React.FC<SaferRewriteProps> = ({
+  analysis,
+  className
+}) => {
+  const { rewrite, reset, result, isRewriting } = useSaferRewrite();
+
+  // Only levels below the current one make sense as a target
+  const targets = RISK_LEVELS.slice(0, RISK_LEVELS.indexOf(analysis.riskLevel));
+  const [targetRisk, setTargetRisk] = useState<RiskLevel>('MILD');
+
+  useEffect(() => {
+    reset();
+  }, [analysis.id, reset]);
+
+  const diff = useMemo(
+    () => (result ? diffWords(result.original.text, result.rewrite.text) : []),
+    [result]
+  );
+
+  if (targets.length === 0) return null;
+
+  const selectedTarget = targets.includes(targetRisk) ? targetRisk : targets[targets.length - 1] ?? 'SAFE';
+
+  const copyRewrite = async () => {
+    if (!result) return;
+    try {
+      await navigator.clipboard.writeText(result.rewrite.text);
+      toast.success('Rewrite copied to clipboard!');
+    } catch {
+      toast.error('Failed to copy to clipboard');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-sm text-gray-400">Rewrite until risk is at most:</span>
+        <div className="flex gap-2" role="radiogroup" aria-label="Target risk level">
+          {targets.map(level => (
+            <button
+              key={level}
+              type="button"
+              role="radio"
+              aria-checked={level === selectedTarget}
+              onClick={() => setTargetRisk(level)}
+              disabled={isRewriting}
+              className={cn(
+                'px-3 py-1 rounded-full border text-xs font-bold transition-opacity duration-200',
+                'focus:outline-none focus:ring-2 focus:ring-purple-500',
+                getRiskBadgeColor(level),
+                level === selectedTarget ? 'opacity-100' : 'opacity-40 hover:opacity-70'
+              )}
+            >
+              {level}
+            </button>
+          ))}
+        </div>
+        <Button
+          onClick={() => rewrite(analysis, { targetRisk: selectedTarget })}
+          loading={isRewriting}
+          disabled={isRewriting}
+          size="sm"
+          className="flex items-center space-x-2 ml-auto"
+          aria-label="Rewrite post to lower its risk"
+        >
+          <Wand2 className="h-4 w-4" />
+          <span>{result ? 'Rewrite Again' : 'Rewrite Safer'}</span>
+        </Button>
+      </div>
+
+      {result && (
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-4"
+        >
+          <div className="flex items-center justify-center space-x-6">
+            <ScoreChip label="Original" score={result.original.cancelScore} riskLevel={result.original.riskLevel} />
+            <ArrowRight className="h-6 w-6 text-gray-500" />
+            <ScoreChip label="Rewrite" score={result.rewrite.cancelScore} riskLevel={result.rewrite.riskLevel} />
+          </div>
+
+          <p
+            className="p-4 bg-gray-800/30 rounded-lg border border-gray-700/50 text-gray-200 leading-relaxed whitespace-pre-wrap break-words"
+            aria-label="Changes between the original post and the rewrite"
+          >
+            {diff.map((segment, index) => {
+              if (segment.type === 'removed') {
+                return <del key={index} className="text-red-400 bg-red-500/10 line-through">{segment.text}</del>;
+              }
+              if (segment.type === 'added') {
+                return <ins key={index} className="text-emerald-300 bg-emerald-500/10 no-underline">{segment.text}</ins>;
+              }
+              return <React.Fragment key={index}>{segment.text}</React.Fragment>;
+            })}
+          </p>
+
+          <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-400">
+            <span>
+              {result.attempts.length === 0
+                ? 'No rewrite could lower the score further.'
+                : `${result.attempts.length} attempt${result.attempts.length === 1 ? '' : 's'}: ${result.attempts
+                    .map(attempt => `${attempt.cancelScore}${attempt.source === 'mock' ? ' (offline)' : ''}`)
+                    .join(' → ')}`}
+            </span>
+            <Button
+              onClick={copyRewrite}
+              variant="ghost"
+              size="sm"
+              className="flex items-center space-x-2"
+              aria-label="Copy rewrite to clipboard"
+            >
+              <Copy className="h-4 w-4" />
+              <span>Copy rewrite</span>
+            </Button>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  );
+};
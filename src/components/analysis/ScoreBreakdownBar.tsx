@@ -0,0 +1,88 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { getCategoryBgColor, formatCategoryName } from '@/utils/analysis';
+import type { ScoreBreakdown } from '@/types';
+
+interface ScoreBreakdownBarProps {
+  breakdown: ScoreBreakdown;
+  thresholds?: readonly number[];
+  className?: string;
+}
+
+const formatPoints = (points: number): string =>
+  points >= 10 ? points.toFixed(0) : points.toFixed(1);
+
+export const ScoreBreakdownBar: React.FC<ScoreBreakdownBarProps> = ({
+  breakdown,
+  thresholds = [20, 40, 60, 80],
+  className
+}) => {
+  const { contributions, score, riskLevel, threshold, tippingCategory } = breakdown;
+  const visible = contributions.filter(item => item.contribution > 0);
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Stacked bar on the 0-100 score scale */}
+      <div className="relative">
+        <div
+          className="flex w-full h-4 bg-gray-800 rounded-full overflow-hidden"
+          role="img"
+          aria-label={`Cancel score ${score} out of 100, made up of ${visible
+            .map(item => `${formatCategoryName(item.category)} ${formatPoints(item.contribution)}`)
+            .join(', ') || 'no risky categories'}`}
+        >
+          {visible.map((item, index) => (
+            <motion.div
+              key={item.category}
+              className={cn('h-full', getCategoryBgColor(item.category))}
+              initial={{ width: 0 }}
+              animate={{ width: `${Math.min(item.contribution, 100)}%` }}
+              transition={{ duration: 0.6, delay: 0.2 + index * 0.1, ease: 'easeOut' }}
+              title={`${formatCategoryName(item.category)}: ${item.value} × ${item.weight} = ${formatPoints(item.contribution)}`}
+            />
+          ))}
+        </div>
+
+        {/* Risk level thresholds */}
+        {thresholds.map(mark => (
+          <div
+            key={mark}
+            className="absolute top-0 h-4 border-l border-dashed border-gray-400/60"
+            style={{ left: `${mark}%` }}
+            aria-hidden="true"
+          />
+        ))}
+      </div>
+
+      {/* Explanation */}
+      <p className="text-sm text-gray-300">
+        {tippingCategory && threshold !== null ? (
+          <>
+            <span className="capitalize font-semibold text-white">{formatCategoryName(tippingCategory)}</span>
+            {' '}pushed this post over the {riskLevel} line at {threshold}.
+          </>
+        ) : (
+          <>No category pushed this post past the SAFE range.</>
+        )}
+      </p>
+
+      {/* Per-category math */}
+      <ul className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+        {contributions.map(item => (
+          <li key={item.category} className="flex items-center justify-between text-gray-400">
+            <span className="flex items-center space-x-2">
+              <span className={cn('inline-block w-2.5 h-2.5 rounded-sm', getCategoryBgColor(item.category))} />
+              <span className={cn('capitalize', item.category === tippingCategory && 'text-white font-semibold')}>
+                {formatCategoryName(item.category)}
+              </span>
+            </span>
+            <span className="font-mono text-xs">
+              {item.value} × {item.weight.toFixed(2)} = {formatPoints(item.contribution)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
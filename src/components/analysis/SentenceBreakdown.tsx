@@ -0,0 +1,89 @@
+import React, { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { Pin } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getRiskBadgeColor, getRiskColor } from '@/utils/analysis';
+import type { SentenceAnalysis } from '@/types';
+
+interface SentenceBreakdownProps {
+  sentences: readonly SentenceAnalysis[];
+  className?: string;
+}
+
+export const SentenceBreakdown: React.FC<SentenceBreakdownProps> = ({
+  sentences,
+  className
+}) => {
+  // Riskiest sentence first, the rest in reading order
+  const rows = useMemo(() => {
+    if (sentences.length === 0) return [];
+
+    const riskiest = sentences.reduce((top, sentence) =>
+      sentence.cancelScore > top.cancelScore ? sentence : top
+    );
+
+    return [riskiest, ...sentences.filter(sentence => sentence !== riskiest)];
+  }, [sentences]);
+
+  if (rows.length < 2) return null;
+
+  const pinned = rows[0];
+
+  return (
+    <div className={cn('text-left', className)}>
+      <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide mb-3">
+        Sentence by Sentence
+      </h4>
+      <div className="overflow-x-auto rounded-lg border border-gray-700/50">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-800/50 text-gray-400">
+            <tr>
+              <th scope="col" className="px-3 py-2 text-left font-medium w-10">#</th>
+              <th scope="col" className="px-3 py-2 text-left font-medium">Sentence</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium w-16">Score</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium w-28">Risk</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((sentence, index) => {
+              const isPinned = sentence === pinned;
+
+              return (
+                <motion.tr
+                  key={sentence.index}
+                  className={cn(
+                    'border-t border-gray-700/50',
+                    isPinned ? 'bg-red-500/10' : 'hover:bg-gray-800/30'
+                  )}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 0.3 + index * 0.05 }}
+                >
+                  <td className="px-3 py-2 text-gray-500 align-top">
+                    {isPinned ? (
+                      <Pin className="h-4 w-4 text-red-400" aria-label="Riskiest sentence" />
+                    ) : (
+                      sentence.index + 1
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-gray-200">{sentence.text}</td>
+                  <td className={cn('px-3 py-2 text-right font-bold align-top', getRiskColor(sentence.riskLevel))}>
+                    {sentence.cancelScore}
+                  </td>
+                  <td className="px-3 py-2 text-right align-top">
+                    <span className={cn(
+                      'inline-block px-2 py-0.5 rounded-full border text-xs font-bold',
+                      getRiskBadgeColor(sentence.riskLevel)
+                    )}>
+                      {sentence.riskLevel}
+                    </span>
+                  </td>
+                </motion.tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
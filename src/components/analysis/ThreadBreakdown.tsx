@@ -0,0 +1,101 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { TrendingUp, TrendingDown, Minus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { getRiskBadgeColor, getRiskColor } from '@/utils/analysis';
+import type { ThreadAnalysis } from '@/types';
+
+interface ThreadBreakdownProps {
+  thread: ThreadAnalysis;
+  className?: string;
+}
+
+const TREND_DISPLAY = {
+  escalating: { label: 'Escalating', icon: TrendingUp, color: 'text-red-400' },
+  steady: { label: 'Steady', icon: Minus, color: 'text-gray-400' },
+  'de-escalating': { label: 'Cooling down', icon: TrendingDown, color: 'text-emerald-400' },
+} as const;
+
+export const ThreadBreakdown: React.FC<ThreadBreakdownProps> = ({
+  thread,
+  className
+}) => {
+  const { posts, aggregate } = thread;
+  const trend = TREND_DISPLAY[aggregate.trend];
+  const TrendIcon = trend.icon;
+
+  return (
+    <div className={cn('text-left', className)}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-sm font-semibold text-gray-300 uppercase tracking-wide">
+          Post by Post
+        </h4>
+        <div className="flex items-center space-x-3 text-sm">
+          <span className={cn('flex items-center', trend.color)}>
+            <TrendIcon className="h-4 w-4 mr-1" />
+            {trend.label}
+          </span>
+          <span className="text-gray-400">
+            Base {aggregate.baseScore}
+            {aggregate.escalation > 0 && (
+              <span className="text-red-400"> + {aggregate.escalation} escalation</span>
+            )}
+          </span>
+        </div>
+      </div>
+      <div className="overflow-x-auto rounded-lg border border-gray-700/50">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-800/50 text-gray-400">
+            <tr>
+              <th scope="col" className="px-3 py-2 text-left font-medium w-10">#</th>
+              <th scope="col" className="px-3 py-2 text-left font-medium">Post</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium w-16">Score</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium w-16">Change</th>
+              <th scope="col" className="px-3 py-2 text-right font-medium w-28">Risk</th>
+            </tr>
+          </thead>
+          <tbody>
+            {posts.map((post, index) => {
+              const previous = posts[index - 1];
+              const change = previous ? post.cancelScore - previous.cancelScore : 0;
+              const isPeak = index === aggregate.peakIndex;
+
+              return (
+                <motion.tr
+                  key={post.id}
+                  className={cn(
+                    'border-t border-gray-700/50',
+                    isPeak ? 'bg-red-500/10' : 'hover:bg-gray-800/30'
+                  )}
+                  initial={{ opacity: 0 }}
+                  animate={{ opacity: 1 }}
+                  transition={{ delay: 0.3 + index * 0.05 }}
+                >
+                  <td className="px-3 py-2 text-gray-500 align-top">{index + 1}</td>
+                  <td className="px-3 py-2 text-gray-200 whitespace-pre-wrap">{post.text}</td>
+                  <td className={cn('px-3 py-2 text-right font-bold align-top', getRiskColor(post.riskLevel))}>
+                    {post.cancelScore}
+                  </td>
+                  <td className={cn(
+                    'px-3 py-2 text-right align-top',
+                    change > 0 ? 'text-red-400' : change < 0 ? 'text-emerald-400' : 'text-gray-500'
+                  )}>
+                    {previous ? (change > 0 ? `+${change}` : change) : '—'}
+                  </td>
+                  <td className="px-3 py-2 text-right align-top">
+                    <span className={cn(
+                      'inline-block px-2 py-0.5 rounded-full border text-xs font-bold',
+                      getRiskBadgeColor(post.riskLevel)
+                    )}>
+                      {post.riskLevel}
+                    </span>
+                  </td>
+                </motion.tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowUp, ArrowDown, Plus, X } from 'lucide-react';
+import { Badge } from '@/components/ui/Badge';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+import { MAX_THREAD_POSTS } from '@/services/analysis/thread';
+
+interface ThreadInputProps {
+  posts: string[];
+  onPostsChange: (posts: string[]) => void;
+  maxLength: number;
+  disabled?: boolean;
+  className?: string;
+}
+
+export const ThreadInput: React.FC<ThreadInputProps> = ({
+  posts,
+  onPostsChange,
+  maxLength,
+  disabled = false,
+  className
+}) => {
+  const updatePost = (index: number, value: string) => {
+    onPostsChange(posts.map((post, i) => (i === index ? value : post)));
+  };
+
+  const removePost = (index: number) => {
+    onPostsChange(posts.filter((_, i) => i !== index));
+  };
+
+  const movePost = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= posts.length) return;
+
+    const next = [...posts];
+    [next[index], next[target]] = [next[target]!, next[index]!];
+    onPostsChange(next);
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <AnimatePresence initial={false}>
+        {posts.map((post, index) => (
+          <motion.div
+            key={index}
+            initial={{ opacity: 0, height: 0 }}
+            animate={{ opacity: 1, height: 'auto' }}
+            exit={{ opacity: 0, height: 0 }}
+            className="relative"
+          >
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-purple-400">
+                POST {index + 1}
+              </span>
+              <div className="flex items-center space-x-1">
+                <button
+                  type="button"
+                  onClick={() => movePost(index, -1)}
+                  disabled={disabled || index === 0}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                  aria-label={`Move post ${index + 1} up`}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => movePost(index, 1)}
+                  disabled={disabled || index === posts.length - 1}
+                  className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                  aria-label={`Move post ${index + 1} down`}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => removePost(index)}
+                  disabled={disabled || posts.length <= 2}
+                  className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30 disabled:cursor-not-allowed"
+                  aria-label={`Remove post ${index + 1}`}
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+
+            <textarea
+              value={post}
+              onChange={(e) => updatePost(index, e.target.value)}
+              placeholder={index === 0 ? 'First post in the thread...' : 'Next post...'}
+              className={cn(
+                'w-full bg-gray-800/50 border border-gray-700 rounded-xl px-4 py-3 pr-24 text-gray-100 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all duration-300 resize-y min-h-[80px]',
+                disabled && 'opacity-50 cursor-not-allowed'
+              )}
+              maxLength={maxLength}
+              disabled={disabled}
+              aria-label={`Thread post ${index + 1}`}
+            />
+
+            <Badge
+              variant={post.length > maxLength * 0.75 ? 'danger' : post.length > maxLength * 0.5 ? 'warning' : 'default'}
+              size="sm"
+              className="absolute bottom-4 right-3"
+            >
+              {post.length}/{maxLength}
+            </Badge>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+
+      <Button
+        variant="secondary"
+        size="sm"
+        onClick={() => onPostsChange([...posts, ''])}
+        disabled={disabled || posts.length >= MAX_THREAD_POSTS}
+        className="flex items-center space-x-2"
+      >
+        <Plus className="h-4 w-4" />
+        <span>Add post ({posts.length}/{MAX_THREAD_POSTS})</span>
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface WarningBannerProps {
+  children: React.ReactNode;
+  className?: string;
+}
+
+export const WarningBanner: React.FC<WarningBannerProps> = ({
+  children,
+  className,
+}) => {
+  return (
+    <div
+      className={cn(
+        'flex items-center justify-center space-x-2 text-sm text-yellow-400 bg-yellow-400/10 border border-yellow-400/20 rounded-lg p-3',
+        className
+      )}
+      role="status"
+    >
+      <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+      <span>{children}</span>
+    </div>
+  );
+};
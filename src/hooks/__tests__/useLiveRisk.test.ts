@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useLiveRisk } from '@/hooks/useLiveRisk';
+import { getScoringProfile } from '@/services/analysis/profiles';
+
+describe('useLiveRisk', () => {
+  const profile = getScoringProfile('default');
+
+  it('scores text locally without calling any provider', () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const { result } = renderHook(() => useLiveRisk('You are a stupid idiot and a total loser', profile));
+
+    expect(result.current?.score).toBeGreaterThan(0);
+    expect(result.current?.categories[0]?.category).toBe('insult');
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    vi.unstubAllGlobals();
+  });
+
+  it('waits for enough text and respects the toggle', () => {
+    expect(renderHook(() => useLiveRisk('hi', profile)).result.current).toBeNull();
+    expect(renderHook(() => useLiveRisk('You are a stupid idiot', profile, 'auto', false)).result.current).toBeNull();
+  });
+
+  it('scores a list of posts as a thread', () => {
+    const posts = ['This update is fine for most people', 'Anyone who disagrees is a stupid idiot'];
+    const { result } = renderHook(() => useLiveRisk(posts, profile));
+
+    const single = renderHook(() => useLiveRisk(posts[1]!, profile)).result.current;
+    expect(result.current?.score).toBeGreaterThanOrEqual(single!.score);
+  });
+});
@@ -9,6 +9,7 @@ vi.mock('@/store/useStore', () => ({
     showToast: vi.fn(),
     addError: vi.fn(),
   }),
+  useCustomRoastModes: () => [],
 }));
 
 vi.mock('react-hot-toast', () => ({
@@ -1,6 +1,6 @@
-import { useCallback } from 'react';
+import { useCallback, useRef } from 'react';
 import { useStore } from '@/store/useStore';
-import { analysisEngine } from '@/services/analysis/AnalysisEngine';
+import { analysisWorkerClient } from '@/services/analysis/worker';
 import type { AnalysisConfig } from '@/types';
 import toast from 'react-hot-toast';
 
@@ -14,6 +14,14 @@ export function useAnalysis() {
     setIsAnalyzing,
     isAnalyzing,
   } = useStore();
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Cancel the previous run and hand out a signal for the next one
+  const startRun = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = new AbortController();
+    return abortControllerRef.current.signal;
+  }, []);
 
   const analyze = useCallback(
     async (text: string, config?: Partial<AnalysisConfig>) => {
@@ -32,30 +40,84 @@ export function useAnalysis() {
         return null;
       }
 
+      const signal = startRun();
       setIsAnalyzing(true);
 
       try {
-        const result = await analysisEngine.analyzeText(text, config);
+        const result = await analysisWorkerClient.analyzeText(text, config, { signal });
         
         setCurrentAnalysis(result);
         addToHistory(result);
 
         return result;
       } catch (error) {
+        if (signal.aborted) return null;
+
         const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
         toast.error(`Analysis failed: ${errorMessage}`);
         
         console.error('Analysis error:', error);
         return null;
       } finally {
-        setIsAnalyzing(false);
+        // A newer run owns the analyzing flag
+        if (abortControllerRef.current?.signal === signal) {
+          setIsAnalyzing(false);
+        }
       }
     },
-    [setCurrentAnalysis, addToHistory, setIsAnalyzing]
+    [setCurrentAnalysis, addToHistory, setIsAnalyzing, startRun]
   );
 
+  const analyzeThread = useCallback(
+    async (posts: string[], config?: Partial<AnalysisConfig>) => {
+      const filled = posts.filter(post => post.trim());
+
+      if (filled.length < 2) {
+        toast.error('A thread needs at least 2 posts.');
+        return null;
+      }
+
+      const signal = startRun();
+      setIsAnalyzing(true);
+
+      try {
+        // One history entry for the whole thread
+        const result = await analysisWorkerClient.analyzeThread(filled, config, { signal });
+
+        setCurrentAnalysis(result);
+        addToHistory(result);
+
+        return result;
+      } catch (error) {
+        if (signal.aborted) return null;
+
+        const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
+        toast.error(`Thread analysis failed: ${errorMessage}`);
+
+        console.error('Thread analysis error:', error);
+        return null;
+      } finally {
+        // A newer run owns the analyzing flag
+        if (abortControllerRef.current?.signal === signal) {
+          setIsAnalyzing(false);
+        }
+      }
+    },
+    [setCurrentAnalysis, addToHistory, setIsAnalyzing, startRun]
+  );
+
+  const cancel = useCallback(() => {
+    if (abortControllerRef.current) {
+      abortControllerRef.current.abort();
+      abortControllerRef.current = null;
+      setIsAnalyzing(false);
+    }
+  }, [setIsAnalyzing]);
+
   return {
     analyze,
+    analyzeThread,
+    cancel,
     isAnalyzing,
   };
 }
\ No newline at end of file
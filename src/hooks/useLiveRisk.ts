@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { scoreText, getLexicon, EN_LEXICON } from '@/services/analysis/lexicon';
+import { calculateCancelScore, getRiskLevel } from '@/services/analysis/scoring';
+import { resolveLanguage } from '@/services/analysis/language';
+import { aggregateThreadScores } from '@/services/analysis/thread';
+import { CATEGORY_KEYS } from '@/services/analysis/providers';
+import type { AnalysisCategories, RiskLevel, ScoringProfile } from '@/types';
+
+export interface LiveRisk {
+  score: number;
+  riskLevel: RiskLevel;
+  categories: { category: keyof AnalysisCategories; value: number }[]; // Non-zero, highest first
+}
+
+const MIN_LIVE_LENGTH = 10;
+
+/**
+ * Score text locally with the lexicon as the user types. Never calls a provider,
+ * so it costs no API quota; pass debounced text to keep it cheap.
+ * A list of posts is scored like a thread.
+ */
+export function useLiveRisk(
+  text: string | readonly string[],
+  profile: ScoringProfile,
+  language?: string,
+  enabled = true
+): LiveRisk | null {
+  return useMemo(() => {
+    if (!enabled) return null;
+
+    const posts = (typeof text === 'string' ? [text] : text).filter(post => post.trim().length >= MIN_LIVE_LENGTH);
+    if (posts.length === 0) return null;
+
+    const scored = posts.map(post => {
+      const lexicon = getLexicon(resolveLanguage(post, language).language) ?? EN_LEXICON;
+      const { categories } = scoreText(post, lexicon);
+      return { categories, score: calculateCancelScore(categories, profile).score };
+    });
+
+    const score = scored.length > 1
+      ? aggregateThreadScores(scored.map(post => post.score)).score
+      : scored[0]!.score;
+
+    const categories = CATEGORY_KEYS
+      .map(category => ({ category, value: Math.max(...scored.map(post => post.categories[category])) }))
+      .filter(item => item.value > 0)
+      .sort((a, b) => b.value - a.value);
+
+    return { score, riskLevel: getRiskLevel(score, profile.thresholds), categories };
+  }, [text, profile, language, enabled]);
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import type { RateLimitBudget, RateLimitInfo } from '@/types';
+import { rateLimiter } from '@/services/rateLimit';
+
+export type RateLimitSnapshot = Record<RateLimitBudget, RateLimitInfo>;
+
+const readLimits = (): RateLimitSnapshot => ({
+  analysis: rateLimiter.getInfo('analysis'),
+  roast: rateLimiter.getInfo('roast'),
+});
+
+/**
+ * Remaining analysis and roast budgets, re-read every second so reset
+ * countdowns tick and requests made in other tabs show up
+ */
+export function useRateLimit(intervalMs = 1000): RateLimitSnapshot {
+  const [limits, setLimits] = useState(readLimits);
+
+  useEffect(() => {
+    const id = setInterval(() => setLimits(readLimits()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return limits;
+}
@@ -5,16 +5,23 @@ import type {
   RoastResult, 
   RoastGenerationRequest,
   RoastGenerationResponse,
-  RoastMode 
+  RoastMode,
+  RoastModeConfig,
+  RoastPrompt
 } from '@/types/roast';
 import { 
   generateRoastPrompt, 
   generateVariationPrompt,
   validateRoastContent,
   generateRoastTags,
-  ROAST_MODE_CONFIGS 
+  getRoastModeConfig
 } from '@/utils/promptEngineering';
-import { useStore } from '@/store/useStore';
+import { isCustomRoastMode } from '@/utils/roastModes';
+import { useStore, useCustomRoastModes } from '@/store/useStore';
+import { rateLimiter, getRateLimitMessage } from '@/services/rateLimit';
+import { llmClient } from '@/services/llm';
+import { moderateOutput, buildStricterInstruction, MAX_GENERATION_ATTEMPTS } from '@/services/analysis/selfModeration';
+import { resolveLanguage } from '@/services/analysis/language';
 import toast from 'react-hot-toast';
 
 /**
@@ -25,10 +32,20 @@ export function useRoastGenerator() {
   const [currentRoast, setCurrentRoast] = useState<RoastResult | null>(null);
   const [generationHistory, setGenerationHistory] = useState<RoastResult[]>([]);
   const [error, setError] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [streamingContent, setStreamingContent] = useState('');
   
   const { showToast, addError } = useStore();
+  const customModes = useCustomRoastModes();
   const cacheRef = useRef(new Map<string, RoastResult>());
-  const rateLimitRef = useRef(new Map<string, number>());
+  const abortRef = useRef<AbortController | null>(null);
+
+  /**
+   * Stop the roast being generated; whatever has streamed in so far is discarded
+   */
+  const cancelGeneration = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
 
   /**
    * Generate a roast with the specified configuration
@@ -52,15 +69,6 @@ export function useRoastGenerator() {
       return null;
     }
 
-    // Check rate limiting
-    const rateLimitKey = `${config.mode}_${Date.now() - (Date.now() % 60000)}`; // Per minute
-    const currentCount = rateLimitRef.current.get(rateLimitKey) || 0;
-    
-    if (currentCount >= 10) { // 10 requests per minute per mode
-      showToast('Rate limit exceeded. Please wait a moment.', 'error');
-      return null;
-    }
-
     // Check cache
     const cacheKey = `${text}_${config.mode}_${config.intensity}`;
     const cached = cacheRef.current.get(cacheKey);
@@ -69,7 +77,18 @@ export function useRoastGenerator() {
       return cached;
     }
 
+    // Cached roasts are free; every generation takes a token up front
+    if (!rateLimiter.tryConsume('roast')) {
+      showToast(getRateLimitMessage(rateLimiter.getInfo('roast')), 'error');
+      return null;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setIsGenerating(true);
+    setIsStreaming(true);
+    setStreamingContent('');
     setError(null);
 
     try {
@@ -80,38 +99,83 @@ export function useRoastGenerator() {
         .map(r => r.content);
 
       const prompt = previousResponses.length > 0
-        ? generateVariationPrompt(text, config.mode, previousResponses)
-        : generateRoastPrompt(text, config.mode, config.intensity);
-
-      const response = await callOpenAI(prompt, config);
-      
-      if (!response.success || !response.result) {
-        throw new Error(response.error || 'Failed to generate roast');
+        ? generateVariationPrompt(text, config.mode, previousResponses, config.intensity, customModes)
+        : generateRoastPrompt(text, config.mode, config.intensity, undefined, customModes);
+      const modeConfig = getRoastModeConfig(config.mode, customModes);
+      const { language } = resolveLanguage(text, config.language);
+
+      let result: RoastResult | null = null;
+      let stricterInstruction: string | undefined;
+      let attempts = 0;
+
+      // Rejected roasts are asked for again with a stricter prompt
+      while (!result && attempts < MAX_GENERATION_ATTEMPTS) {
+        attempts++;
+        setStreamingContent('');
+
+        const attemptPrompt = stricterInstruction
+          ? { ...prompt, system: `${prompt.system}\n\n${stricterInstruction}` }
+          : prompt;
+        const response = await callLlm(attemptPrompt, config, modeConfig, controller.signal, token => {
+          setStreamingContent(prev => prev + token);
+        });
+
+        if (controller.signal.aborted) {
+          showToast('Roast cancelled', 'info');
+          return null;
+        }
+
+        if (!response.success || !response.result) {
+          throw new Error(response.error || 'Failed to generate roast');
+        }
+
+        // Check the finished text; tokens are shown unchecked while they stream in
+        const validation = validateRoastContent(response.result.content, config.mode, customModes);
+        const verdict = await moderateOutput(validation.sanitized, { language, signal: controller.signal });
+
+        if (controller.signal.aborted) {
+          showToast('Roast cancelled', 'info');
+          return null;
+        }
+
+        if (validation.isValid && verdict.allowed) {
+          result = {
+            ...response.result,
+            content: validation.sanitized,
+            tags: generateRoastTags(validation.sanitized, config.mode),
+            attempts,
+          };
+        } else {
+          const issues = [...verdict.violations, ...validation.issues];
+          console.warn(`Generated roast rejected (${issues.join(', ')}), attempt ${attempts} of ${MAX_GENERATION_ATTEMPTS}`);
+          stricterInstruction = verdict.allowed
+            ? `Your previous reply was rejected: ${validation.issues.join(', ').toLowerCase()}. Keep it short, playful and free of anything that could read as harmful.`
+            : buildStricterInstruction(verdict.violations);
+        }
       }
 
-      const result = response.result;
-      
-      // Validate content
-      const validation = validateRoastContent(result.content, config.mode);
-      if (!validation.isValid) {
-        throw new Error(`Generated content failed validation: ${validation.issues.join(', ')}`);
+      // Nothing passed; the built-in roasts are written to be safe
+      if (!result) {
+        result = {
+          id: uuidv4(),
+          content: generateMockRoast(config.mode),
+          mode: config.mode,
+          timestamp: Date.now(),
+          originalText: text,
+          confidence: 0.5,
+          tags: [config.mode, 'safe-fallback'],
+          attempts,
+        };
       }
 
-      // Update result with validated content
-      result.content = validation.sanitized;
-      result.tags = generateRoastTags(result.content, config.mode);
-
       // Cache result
       cacheRef.current.set(cacheKey, result);
-      
-      // Update rate limiting
-      rateLimitRef.current.set(rateLimitKey, currentCount + 1);
 
       // Update state
       setCurrentRoast(result);
       setGenerationHistory(prev => [result, ...prev.slice(0, 49)]); // Keep last 50
 
-      showToast(`${ROAST_MODE_CONFIGS[config.mode].name} roast generated! 🔥`, 'success');
+      showToast(`${modeConfig.name} roast generated! 🔥`, 'success');
       
       return result;
 
@@ -128,9 +192,14 @@ export function useRoastGenerator() {
 
       return null;
     } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
       setIsGenerating(false);
+      setIsStreaming(false);
+      setStreamingContent('');
     }
-  }, [showToast, addError, generationHistory]);
+  }, [showToast, addError, generationHistory, customModes]);
 
   /**
    * Generate multiple roasts with different modes
@@ -214,6 +283,8 @@ export function useRoastGenerator() {
   return {
     // State
     isGenerating,
+    isStreaming,
+    streamingContent,
     currentRoast,
     generationHistory,
     error,
@@ -222,6 +293,7 @@ export function useRoastGenerator() {
     generateRoast,
     generateMultipleRoasts,
     regenerateRoast,
+    cancelGeneration,
     clearRoasts,
     
     // Utils
@@ -229,16 +301,20 @@ export function useRoastGenerator() {
   };
 }
 
+// A stream that goes quiet this long is given up on
+const STREAM_IDLE_TIMEOUT_MS = 15000;
+
 /**
- * Call OpenAI API for roast generation
+ * Call the configured LLM for roast generation, streaming tokens to `onToken`
  */
-async function callOpenAI(
-  prompt: string,
-  config: RoastConfig
+async function callLlm(
+  prompt: RoastPrompt,
+  config: RoastConfig,
+  modeConfig: RoastModeConfig,
+  signal: AbortSignal,
+  onToken: (token: string) => void
 ): Promise<RoastGenerationResponse> {
-  const apiKey = import.meta.env.VITE_OPENAI_API_KEY;
-  
-  if (!apiKey) {
+  if (!llmClient.isAvailable(config.mode)) {
     // Return mock response for development
     return {
       success: true,
@@ -247,52 +323,46 @@ async function callOpenAI(
         content: generateMockRoast(config.mode),
         mode: config.mode,
         timestamp: Date.now(),
-        originalText: 'Mock text',
+        originalText: prompt.metadata.originalText,
         confidence: 0.85,
         tags: [config.mode, 'mock']
-      }
+      },
+      rateLimitInfo: rateLimiter.getInfo('roast')
     };
   }
 
-  const modeConfig = ROAST_MODE_CONFIGS[config.mode];
+  if (prompt.metadata.injectionSuspected) {
+    console.warn('Roast text looks like a prompt injection attempt:', prompt.metadata.injectionMatches);
+  }
+
+  // Aborted by the caller, or by the idle timer, which restarts on every token
+  const stop = new AbortController();
+  const onAbort = () => stop.abort();
+  let idleTimer = setTimeout(onAbort, STREAM_IDLE_TIMEOUT_MS);
+  signal.addEventListener('abort', onAbort);
   
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4-turbo-preview',
-        messages: [
-          {
-            role: 'system',
-            content: modeConfig.systemPrompt
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        max_tokens: modeConfig.maxTokens,
-        temperature: modeConfig.temperature,
-        presence_penalty: 0.6,
-        frequency_penalty: 0.3
-      }),
-      signal: AbortSignal.timeout(15000)
-    });
-
-    if (!response.ok) {
-      throw new Error(`OpenAI API error: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices[0]?.message?.content?.trim();
-
-    if (!content) {
-      throw new Error('No content generated');
-    }
+    const content = await llmClient.stream({
+      mode: config.mode,
+      messages: [
+        {
+          role: 'system',
+          content: prompt.system
+        },
+        {
+          role: 'user',
+          content: prompt.user
+        }
+      ],
+      maxTokens: modeConfig.maxTokens,
+      temperature: modeConfig.temperature,
+      presencePenalty: 0.6,
+      frequencyPenalty: 0.3
+    }, token => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(onAbort, STREAM_IDLE_TIMEOUT_MS);
+      onToken(token);
+    }, stop.signal);
 
     return {
       success: true,
@@ -301,17 +371,25 @@ async function callOpenAI(
         content,
         mode: config.mode,
         timestamp: Date.now(),
-        originalText: prompt.split('Text to analyze: "')[1]?.split('"')[0] || '',
+        originalText: prompt.metadata.originalText,
         confidence: 0.9,
         tags: generateRoastTags(content, config.mode)
-      }
+      },
+      rateLimitInfo: rateLimiter.getInfo('roast')
     };
 
   } catch (error) {
+    const timedOut = stop.signal.aborted && !signal.aborted;
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error'
+      error: timedOut
+        ? 'The roast stopped arriving, please try again'
+        : error instanceof Error ? error.message : 'Unknown error',
+      rateLimitInfo: rateLimiter.getInfo('roast')
     };
+  } finally {
+    clearTimeout(idleTimer);
+    signal.removeEventListener('abort', onAbort);
   }
 }
 
@@ -347,6 +425,7 @@ function generateMockRoast(mode: RoastMode): string {
     ]
   };
 
-  const roasts = mockRoasts[mode];
+  // Also the safe fallback, so a custom mode's own (unmoderated) examples aren't used
+  const roasts = mockRoasts[isCustomRoastMode(mode) ? 'friendly' : mode];
   return roasts[Math.floor(Math.random() * roasts.length)];
 }
\ No newline at end of file
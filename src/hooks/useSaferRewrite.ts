@@ -0,0 +1,48 @@
+import { useCallback, useState } from 'react';
+import { saferRewriter } from '@/services/analysis/rewrite';
+import type { RewriteOptions } from '@/services/analysis/rewrite';
+import type { AnalysisResult, RewriteResult } from '@/types';
+import toast from 'react-hot-toast';
+
+/**
+ * Custom hook for rewriting an analyzed post until it scores under a target risk level
+ */
+export function useSaferRewrite() {
+  const [isRewriting, setIsRewriting] = useState(false);
+  const [result, setResult] = useState<RewriteResult | null>(null);
+
+  const rewrite = useCallback(
+    async (original: AnalysisResult, options: RewriteOptions) => {
+      setIsRewriting(true);
+
+      try {
+        const rewritten = await saferRewriter.rewrite(original, options);
+        setResult(rewritten);
+
+        if (!rewritten.reachedTarget) {
+          toast.error(`Couldn't get below ${options.targetRisk} risk - here's the safest attempt.`);
+        }
+
+        return rewritten;
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Rewrite failed';
+        toast.error(`Rewrite failed: ${errorMessage}`);
+
+        console.error('Rewrite error:', error);
+        return null;
+      } finally {
+        setIsRewriting(false);
+      }
+    },
+    []
+  );
+
+  const reset = useCallback(() => setResult(null), []);
+
+  return {
+    rewrite,
+    reset,
+    result,
+    isRewriting,
+  };
+}
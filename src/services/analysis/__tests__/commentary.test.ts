@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseCommentary, COMMENTARY_PROMPT_VERSION } from '@/services/analysis/commentary';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+import { ToxicityProviderRegistry, LexiconProvider } from '@/services/analysis/providers';
+import { MemoryResultCache } from '@/services/analysis/cache';
+import { llmClient } from '@/services/llm';
+import { APOLOGY_TEMPLATES } from '@/services/analysis/templates';
+
+const TEXT = 'Honestly the new intern is a total idiot and everyone knows it';
+
+describe('parseCommentary', () => {
+  it('keeps every valid field', () => {
+    const commentary = parseCommentary(JSON.stringify({
+      roast: 'Bold of you to put this in writing.',
+      apology: 'I was out of line about our intern and I am sorry.',
+      recommendations: ['Drop "total idiot"', 'Give the feedback in private'],
+      flaggedPhrases: ['total idiot'],
+    }), TEXT);
+
+    expect(commentary).toEqual({
+      roast: 'Bold of you to put this in writing.',
+      apology: 'I was out of line about our intern and I am sorry.',
+      recommendations: ['Drop "total idiot"', 'Give the feedback in private'],
+      flaggedPhrases: ['total idiot'],
+    });
+  });
+
+  it('drops malformed fields and keeps the rest', () => {
+    const commentary = parseCommentary('```json\n' + JSON.stringify({
+      roast: 'x'.repeat(500),
+      apology: 42,
+      recommendations: ['Say what the intern got wrong', 7],
+      flaggedPhrases: ['total idiot', 'a phrase that is not in the post'],
+    }) + '\n```', TEXT);
+
+    expect(commentary).toEqual({
+      recommendations: ['Say what the intern got wrong'],
+      flaggedPhrases: ['total idiot'],
+    });
+  });
+
+  it('returns nothing for a reply that is not JSON', () => {
+    expect(parseCommentary('Sure! Here is your roast: lol', TEXT)).toEqual({});
+  });
+});
+
+describe('commentary stage', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('makes one LLM call and falls back per field', async () => {
+    vi.spyOn(llmClient, 'isAvailable').mockReturnValue(true);
+    const complete = vi.spyOn(llmClient, 'complete').mockResolvedValue(JSON.stringify({
+      roast: 'Calling the intern names in public, bold HR strategy.',
+      recommendations: ['Replace "total idiot" with what actually went wrong'],
+      flaggedPhrases: ['total idiot'],
+    }));
+
+    const providers = new ToxicityProviderRegistry();
+    providers.register(new LexiconProvider());
+    const pipeline = new AnalysisPipelineImpl(providers, new MemoryResultCache());
+
+    const result = await pipeline.analyzeText(TEXT, { provider: 'lexicon' });
+
+    expect(complete).toHaveBeenCalledTimes(1);
+    expect(complete.mock.calls[0]?.[0].json).toBe(true);
+    expect(result.roast).toBe('Calling the intern names in public, bold HR strategy.');
+    expect(APOLOGY_TEMPLATES['en']?.[result.riskLevel]).toContain(result.apology);
+    expect(result.recommendations).toEqual(['Replace "total idiot" with what actually went wrong']);
+    expect(result.flaggedPhrases).toEqual(['total idiot']);
+    expect(result.provenance?.roastPromptVersion).toBe(COMMENTARY_PROMPT_VERSION);
+  });
+});
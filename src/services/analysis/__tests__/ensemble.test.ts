@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { AnalysisCategories, ProviderScores } from '@/types';
+import { ToxicityProviderRegistry, LexiconProvider, normalizeCategories } from '@/services/analysis/providers';
+import type { ToxicityProvider } from '@/services/analysis/providers';
+import { mergeProviderScores, measureDisagreement, createDefaultEnsemble } from '@/services/analysis/ensemble';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+
+const scores = (providerId: string, categories: Partial<AnalysisCategories>): ProviderScores => ({
+  providerId,
+  name: providerId,
+  categories: normalizeCategories(categories),
+});
+
+const stubProvider = (id: string, categories: Partial<AnalysisCategories>, available = true): ToxicityProvider => ({
+  id,
+  name: id,
+  isAvailable: () => available,
+  analyze: async () => normalizeCategories(categories),
+});
+
+describe('ensemble scoring', () => {
+  const a = scores('a', { insult: 80, toxicity: 40 });
+  const b = scores('b', { insult: 20, toxicity: 40 });
+
+  it('merges with mean, max and weighted strategies', () => {
+    expect(mergeProviderScores([a, b], 'mean').insult).toBe(50);
+    expect(mergeProviderScores([a, b], 'max').insult).toBe(80);
+    expect(mergeProviderScores([a, b], 'weighted', { a: 3 }).insult).toBe(65);
+  });
+
+  it('flags categories where providers diverge', () => {
+    const { spreads, disagreement, divergentCategories } = measureDisagreement([a, b]);
+
+    expect(spreads.insult).toBe(60);
+    expect(divergentCategories).toEqual(['insult']);
+    // Mean spread over insult (60) and toxicity (0)
+    expect(disagreement).toBeCloseTo(0.3);
+  });
+
+  it('treats providers that agree a text is clean as unanimous', () => {
+    expect(measureDisagreement([scores('a', { spam: 5 }), scores('b', {})]).disagreement).toBe(0);
+  });
+
+  it('bases confidence on disagreement and reports skipped providers', async () => {
+    const registry = new ToxicityProviderRegistry();
+    registry.register(new LexiconProvider());
+    registry.register(stubProvider('harsh', { insult: 90 }));
+    registry.register(stubProvider('lenient', { insult: 10 }));
+    registry.register(stubProvider('offline', {}, false));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const pipeline = new AnalysisPipelineImpl(registry);
+    const result = await pipeline.analyzeText('This is a perfectly normal post', {
+      ensemble: { providers: ['harsh', 'lenient', 'offline'], strategy: 'mean' },
+    });
+
+    expect(result.categories.insult).toBe(50);
+    expect(result.ensemble?.failed).toEqual(['offline']);
+    expect(result.ensemble?.divergentCategories).toContain('insult');
+    expect(result.confidence).toBeCloseTo(1 - result.ensemble!.disagreement);
+  });
+
+  it('marks the source as fallback when only the lexicon answered', async () => {
+    const registry = new ToxicityProviderRegistry();
+    registry.register(new LexiconProvider());
+    registry.register({ ...stubProvider('remote', {}), analyze: () => Promise.reject(new Error('down')) });
+    registry.register(stubProvider('offline', {}, false));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const pipeline = new AnalysisPipelineImpl(registry);
+    const text = 'This is a perfectly normal post';
+
+    const failed = await pipeline.analyzeText(text, { ensemble: { providers: ['lexicon', 'remote'], strategy: 'mean' } });
+    const unconfigured = await pipeline.analyzeText(text, { ensemble: { providers: ['lexicon', 'offline'], strategy: 'mean' } });
+
+    expect(failed.source).toBe('fallback');
+    expect(unconfigured.source).toBe('mock');
+  });
+
+  it('builds the default ensemble from the configured providers', () => {
+    const registry = new ToxicityProviderRegistry();
+    registry.register(new LexiconProvider());
+    registry.register(stubProvider('remote', {}));
+    registry.register(stubProvider('offline', {}, false));
+
+    expect(createDefaultEnsemble(registry)).toEqual({ providers: ['lexicon', 'remote'], strategy: 'mean' });
+  });
+});
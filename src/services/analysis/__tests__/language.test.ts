@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from '@/utils/language';
+import { resolveLanguage } from '@/services/analysis/language';
+import { scoreText, getLexicon } from '@/services/analysis/lexicon';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+
+describe('detectLanguage', () => {
+  it.each([
+    ['Creo que la pizza con piña es muy buena, pero no para todos', 'es'],
+    ['Je pense que ce film est très bien, mais pas pour les enfants', 'fr'],
+    ['Ich finde das Wetter heute nicht so schön, aber die Sonne ist da', 'de'],
+    ['मुझे लगता है कि यह फिल्म बहुत अच्छी है', 'hi'],
+    ['yeh movie bhi kya bakwas hai yaar', 'hi'],
+    ['I think this is the best thing that happened this year', 'en'],
+  ])('detects %s as %s', (text, language) => {
+    expect(detectLanguage(text).language).toBe(language);
+  });
+});
+
+describe('multilingual lexicons', () => {
+  it('scores insults in each supported language', () => {
+    const samples: Array<[string, string]> = [
+      ['es', 'Eres un idiota y un perdedor'],
+      ['fr', 'Tu es un crétin et un abruti'],
+      ['de', 'Du bist ein Vollidiot und ein Versager'],
+      ['hi', 'तुम बेवकूफ़ हो और निकम्मा भी'],
+    ];
+
+    for (const [language, text] of samples) {
+      const lexicon = getLexicon(language);
+      expect(lexicon?.language).toBe(language);
+      expect(scoreText(text, lexicon).categories.insult).toBeGreaterThan(0);
+    }
+  });
+
+  it('resolves regional variants to their base lexicon', () => {
+    expect(getLexicon('es-MX')?.language).toBe('es');
+    expect(resolveLanguage('anything at all', 'it')).toEqual({ language: 'it', supported: false });
+  });
+});
+
+describe('AnalysisPipeline language handling', () => {
+  it('analyzes German text without tripping the English harmful-content filter', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const result = await pipeline.analyzeText('Die Leute hier sind alle Idioten und Versager', { language: 'auto' });
+
+    expect(result.language).toBe('de');
+    expect(result.languageSupported).toBe(true);
+    expect(result.categories.insult).toBeGreaterThan(0);
+  });
+
+  it('analyzes Devanagari text', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const result = await pipeline.analyzeText('तुम बेवकूफ़ हो और निकम्मा भी। चुप कर।');
+
+    expect(result.language).toBe('hi');
+    expect(result.sentences).toHaveLength(2);
+    expect(result.cancelScore).toBeGreaterThan(0);
+  });
+
+  it('lowers confidence for unsupported languages', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const text = 'Questo è un post molto tranquillo sul tempo di oggi';
+    const unsupported = await pipeline.analyzeText(text, { language: 'it' });
+    const supported = await pipeline.analyzeText(text, { language: 'en' });
+
+    expect(unsupported.languageSupported).toBe(false);
+    expect(unsupported.confidence).toBeCloseTo(supported.confidence / 2);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker, HttpStatusError, getBackoffDelay, withRetry, withTimeout } from '@/services/analysis/resilience';
+import { ToxicityProviderRegistry, LexiconProvider, ResilientProvider, normalizeCategories } from '@/services/analysis/providers';
+import type { ToxicityProvider } from '@/services/analysis/providers';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+import { MemoryResultCache } from '@/services/analysis/cache';
+
+vi.stubEnv('VITE_OPENAI_API_KEY', '');
+
+const TEXT = 'This is a perfectly normal post about the weather';
+const noDelay = { retries: 2, baseDelayMs: 0, maxDelayMs: 0 };
+
+const pipelineWith = (provider: ToxicityProvider) => {
+  const registry = new ToxicityProviderRegistry();
+  registry.register(new LexiconProvider());
+  registry.register(provider);
+  return new AnalysisPipelineImpl(registry, new MemoryResultCache());
+};
+
+describe('resilience', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('backs off exponentially up to the cap with jitter', () => {
+    const retry = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(getBackoffDelay(0, retry, () => 1)).toBe(100);
+    expect(getBackoffDelay(3, retry, () => 1)).toBe(800);
+    expect(getBackoffDelay(6, retry, () => 1)).toBe(1000);
+    expect(getBackoffDelay(3, retry, () => 0.5)).toBe(400);
+  });
+
+  it('retries until the operation succeeds or retries run out', async () => {
+    const flaky = vi.fn()
+      .mockRejectedValueOnce(new HttpStatusError('Service unavailable', 503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce('ok');
+
+    expect(await withRetry(flaky, noDelay)).toBe('ok');
+    await expect(withRetry(() => Promise.reject(new HttpStatusError('Too many requests', 429)), noDelay)).rejects.toThrow('Too many');
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const unauthorized = vi.fn().mockRejectedValue(new HttpStatusError('Unauthorized', 401));
+    const invalid = vi.fn().mockRejectedValue(new Error('Returned invalid JSON'));
+
+    await expect(withRetry(unauthorized, noDelay)).rejects.toThrow('Unauthorized');
+    await expect(withRetry(invalid, noDelay)).rejects.toThrow('invalid JSON');
+    expect(unauthorized).toHaveBeenCalledOnce();
+    expect(invalid).toHaveBeenCalledOnce();
+  });
+
+  it('times out and aborts slow operations', async () => {
+    let aborted = false;
+    const slow = (signal: AbortSignal) => new Promise<string>(() => {
+      signal.addEventListener('abort', () => { aborted = true; });
+    });
+
+    await expect(withTimeout(slow, 10)).rejects.toThrow('Timed out after 10ms');
+    expect(aborted).toBe(true);
+  });
+
+  it('opens after repeated failures and lets a trial call through after the cooldown', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker('Test', { failureThreshold: 2, cooldownMs: 1000 });
+    const fail = () => Promise.reject(new Error('down'));
+
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    await expect(breaker.execute(fail)).rejects.toThrow('down');
+    await expect(breaker.execute(() => Promise.resolve('ok'))).rejects.toThrow('paused');
+
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.state).toBe('half-open');
+    expect(await breaker.execute(() => Promise.resolve('ok'))).toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('lets only one trial call through while half-open', async () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker('Test', { failureThreshold: 1, cooldownMs: 1000 });
+    await expect(breaker.execute(() => Promise.reject(new Error('down')))).rejects.toThrow('down');
+    vi.advanceTimersByTime(1000);
+
+    let finishTrial: (value: string) => void = () => {};
+    const trial = breaker.execute(() => new Promise<string>(resolve => { finishTrial = resolve; }));
+    const second = vi.fn(() => Promise.resolve('ok'));
+
+    await expect(breaker.execute(second)).rejects.toThrow('paused');
+    expect(second).not.toHaveBeenCalled();
+
+    finishTrial('ok');
+    expect(await trial).toBe('ok');
+    expect(await breaker.execute(second)).toBe('ok');
+  });
+});
+
+describe('result source', () => {
+  const remote = (analyze: ToxicityProvider['analyze'], available = true): ToxicityProvider => ({
+    id: 'remote',
+    name: 'Remote',
+    isAvailable: () => available,
+    analyze,
+  });
+
+  it('marks provider, fallback and mock scores', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const config = { provider: 'remote' };
+    const failing = new ResilientProvider(remote(() => Promise.reject(new Error('500'))), {
+      timeoutMs: 1000,
+      retry: noDelay,
+      breaker: { failureThreshold: 3, cooldownMs: 1000 },
+    });
+
+    expect((await pipelineWith(remote(async () => normalizeCategories({}))).analyzeText(TEXT, config)).source).toBe('provider');
+    expect((await pipelineWith(failing).analyzeText(TEXT, config)).source).toBe('fallback');
+    expect((await pipelineWith(remote(async () => normalizeCategories({}), false)).analyzeText(TEXT, config)).source).toBe('mock');
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { calculateCancelScore } from '@/services/analysis/scoring';
+import { SCORING_PROFILES } from '@/services/analysis/profiles';
+import type { AnalysisCategories } from '@/types';
+
+const categories = (overrides: Partial<AnalysisCategories>): AnalysisCategories => ({
+  toxicity: 0,
+  identity_attack: 0,
+  insult: 0,
+  profanity: 0,
+  threat: 0,
+  sexually_explicit: 0,
+  flirtation: 0,
+  spam: 0,
+  ...overrides,
+});
+
+describe('calculateCancelScore', () => {
+  it('breaks the score down into weight × value per category', () => {
+    const breakdown = calculateCancelScore(categories({ toxicity: 80, insult: 60 }));
+
+    expect(breakdown.score).toBe(29);
+    expect(breakdown.contributions[0]).toEqual({ category: 'toxicity', value: 80, weight: 0.25, contribution: 20 });
+    expect(breakdown.contributions[1]).toEqual({ category: 'insult', value: 60, weight: 0.15, contribution: 9 });
+    expect(breakdown.contributions).toHaveLength(8);
+  });
+
+  it('names the category that crossed the risk threshold', () => {
+    const breakdown = calculateCancelScore(categories({ toxicity: 100, threat: 100, profanity: 40 }));
+
+    expect(breakdown.riskLevel).toBe('MODERATE');
+    expect(breakdown.threshold).toBe(40);
+    expect(breakdown.tippingCategory).toBe('threat');
+  });
+
+  it('reports no tipping category for safe scores', () => {
+    const breakdown = calculateCancelScore(categories({ flirtation: 50 }));
+
+    expect(breakdown.riskLevel).toBe('SAFE');
+    expect(breakdown.threshold).toBeNull();
+    expect(breakdown.tippingCategory).toBeNull();
+  });
+
+  it('scores the same post differently per platform profile', () => {
+    const post = categories({ toxicity: 30, profanity: 80 });
+
+    const general = calculateCancelScore(post);
+    const linkedin = calculateCancelScore(post, SCORING_PROFILES.linkedin);
+    const reddit = calculateCancelScore(post, SCORING_PROFILES.reddit);
+
+    expect(general.riskLevel).toBe('SAFE');
+    expect(linkedin.score).toBeGreaterThan(general.score);
+    expect(linkedin.riskLevel).toBe('MODERATE');
+    expect(linkedin.threshold).toBe(25);
+    expect(reddit.score).toBeLessThan(general.score);
+  });
+});
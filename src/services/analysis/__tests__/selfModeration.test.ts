@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { moderateOutput, MAX_GENERATION_ATTEMPTS } from '@/services/analysis/selfModeration';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+import { ToxicityProviderRegistry, LexiconProvider } from '@/services/analysis/providers';
+import type { ToxicityProvider } from '@/services/analysis/providers';
+import { MemoryResultCache } from '@/services/analysis/cache';
+import { llmClient } from '@/services/llm';
+import { ROAST_TEMPLATES } from '@/services/analysis/templates';
+
+const TEXT = 'Honestly the new intern is a total idiot and everyone knows it';
+const THREAT = 'I will kill you and your family';
+
+function createRegistry(...extra: ToxicityProvider[]): ToxicityProviderRegistry {
+  const providers = new ToxicityProviderRegistry();
+  providers.register(new LexiconProvider());
+  extra.forEach(provider => providers.register(provider));
+  return providers;
+}
+
+describe('moderateOutput', () => {
+  it('rejects threats and identity attacks but not ordinary teasing', async () => {
+    const providers = createRegistry();
+
+    expect(await moderateOutput(THREAT, { language: 'en', providers })).toEqual({ allowed: false, violations: ['threat'] });
+    expect(await moderateOutput('go back to your country, you people are all the same', { language: 'en', providers }))
+      .toEqual({ allowed: false, violations: ['identity_attack'] });
+    expect(await moderateOutput('bestie really thought this was the one', { language: 'en', providers }))
+      .toEqual({ allowed: true, violations: [] });
+  });
+
+  it('takes the higher of the provider and lexicon scores', async () => {
+    const remote: ToxicityProvider = {
+      id: 'remote',
+      name: 'Remote',
+      isAvailable: () => true,
+      analyze: async () => ({
+        toxicity: 0, identity_attack: 90, insult: 0, profanity: 0, threat: 0, sexually_explicit: 0, flirtation: 0, spam: 0,
+      }),
+    };
+
+    const verdict = await moderateOutput(THREAT, { language: 'en', providers: createRegistry(remote), providerId: 'remote' });
+
+    expect(verdict.violations).toEqual(['identity_attack', 'threat']);
+  });
+});
+
+describe('commentary moderation', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('asks again with a stricter prompt until the roast passes', async () => {
+    vi.spyOn(llmClient, 'isAvailable').mockReturnValue(true);
+    const complete = vi.spyOn(llmClient, 'complete')
+      .mockResolvedValueOnce(JSON.stringify({ roast: THREAT, apology: 'Sorry to the intern.' }))
+      .mockResolvedValueOnce(JSON.stringify({ roast: 'Bold HR strategy.', apology: 'A different apology.' }));
+    const pipeline = new AnalysisPipelineImpl(createRegistry(), new MemoryResultCache());
+
+    const result = await pipeline.analyzeText(TEXT, { provider: 'lexicon' });
+
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1]?.[0].messages[0]?.content).toContain('rejected for containing threats');
+    expect(result.roast).toBe('Bold HR strategy.');
+    // The first apology passed and is kept
+    expect(result.apology).toBe('Sorry to the intern.');
+    expect(result.provenance?.roastAttempts).toBe(2);
+  });
+
+  it('falls back to a template when every attempt fails', async () => {
+    vi.spyOn(llmClient, 'isAvailable').mockReturnValue(true);
+    const complete = vi.spyOn(llmClient, 'complete').mockResolvedValue(JSON.stringify({ roast: THREAT }));
+    const pipeline = new AnalysisPipelineImpl(createRegistry(), new MemoryResultCache());
+
+    const result = await pipeline.analyzeText(TEXT, { provider: 'lexicon' });
+
+    expect(complete).toHaveBeenCalledTimes(MAX_GENERATION_ATTEMPTS);
+    expect(ROAST_TEMPLATES['en']?.[result.riskLevel]).toContain(result.roast);
+    expect(result.provenance).toMatchObject({ roastSource: 'fallback', roastAttempts: MAX_GENERATION_ATTEMPTS });
+  });
+});
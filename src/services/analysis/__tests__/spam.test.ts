@@ -0,0 +1,62 @@
+import { describe, it, expect, vi } from 'vitest';
+import { detectSpam } from '@/services/analysis/spam';
+import { scoreText } from '@/services/analysis/lexicon';
+import { PerspectiveProvider } from '@/services/analysis/providers';
+
+const signalIds = (text: string, promo: number[] = []) => detectSpam(text, promo).signals.map(signal => signal.id);
+
+describe('detectSpam', () => {
+  it('scores ordinary posts as zero', () => {
+    expect(detectSpam('Had a lovely walk in the park with my dog this morning').score).toBe(0);
+  });
+
+  it('does not count function words as repetition', () => {
+    expect(detectSpam('I think the new policy is the best thing the council has done in years.').score).toBe(0);
+    expect(detectSpam('The cat and the dog went to the park with the kids.').score).toBe(0);
+    expect(detectSpam('Die Katze und die Maus sind die besten Freunde der Welt.', [], 'de').score).toBe(0);
+  });
+
+  it('flags link density and affiliate URLs', () => {
+    const ids = signalIds('Best deal https://amzn.to/3xYz and https://shop.example.com/item?ref=abc123');
+
+    expect(ids).toContain('links');
+    expect(ids).toContain('affiliate_links');
+  });
+
+  it('flags hashtag and mention stuffing', () => {
+    expect(signalIds('New post #fyp #viral #trending #love #instagood')).toContain('hashtags');
+    expect(signalIds('Thanks @a @b @c @d @e for the support')).toContain('mentions');
+  });
+
+  it('flags repeated tokens and shouting', () => {
+    expect(signalIds('win win win win win big today')).toContain('repeated_tokens');
+    expect(signalIds('FREE IPHONES FOR EVERYONE WHO SIGNS UP TODAY')).toContain('all_caps');
+  });
+
+  it('is deterministic and feeds the lexicon spam category', () => {
+    const text = 'GIVEAWAY!!! Click here https://bit.ly/free #win #free #giveaway #prize';
+
+    expect(scoreText(text).categories.spam).toBe(scoreText(text).categories.spam);
+    expect(scoreText(text).categories.spam).toBeGreaterThan(60);
+    expect(scoreText(text).spamSignals.map(signal => signal.id)).toContain('promo_phrasing');
+  });
+});
+
+describe('spam consistency across providers', () => {
+  it('gives Perspective results the same spam score as the local scorer', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ attributeScores: { TOXICITY: { summaryScore: { value: 0.1 } } } }),
+    }));
+
+    const text = 'Click here for free money https://bit.ly/abc #money #rich #free #cash';
+    const provider = new PerspectiveProvider({ apiKey: 'test-key' });
+    const categories = await provider.analyze(text, { language: 'en' });
+
+    expect(categories.spam).toBe(scoreText(text).categories.spam);
+    expect(categories.spam).toBeGreaterThan(0);
+
+    vi.unstubAllGlobals();
+  });
+});
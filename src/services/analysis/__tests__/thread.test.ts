@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateThreadScores, THREAD_POST_SEPARATOR } from '@/services/analysis/thread';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+
+describe('aggregateThreadScores', () => {
+  it('scores an escalating thread above the same posts in calming order', () => {
+    const escalating = aggregateThreadScores([10, 30, 60]);
+    const calming = aggregateThreadScores([60, 30, 10]);
+
+    expect(escalating.trend).toBe('escalating');
+    expect(escalating.escalation).toBeGreaterThan(0);
+    expect(calming.trend).toBe('de-escalating');
+    expect(calming.escalation).toBe(0);
+    expect(escalating.score).toBeGreaterThan(calming.score);
+    expect(escalating.peakIndex).toBe(2);
+  });
+
+  it('leans on the worst post', () => {
+    const { score, baseScore } = aggregateThreadScores([5, 80, 5]);
+    expect(baseScore).toBeGreaterThan(50);
+    expect(score).toBeLessThanOrEqual(100);
+  });
+});
+
+describe('AnalysisPipeline.analyzeThread', () => {
+  it('returns one result holding every post', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const posts = [
+      'Honestly I think the new update is fine for most people',
+      'Anyone who disagrees is a stupid idiot and a total loser',
+    ];
+
+    const result = await pipeline.analyzeThread(posts);
+
+    expect(result.text).toBe(posts.join(THREAD_POST_SEPARATOR));
+    expect(result.thread?.posts.map(post => post.text)).toEqual(posts);
+    expect(result.thread?.aggregate.trend).toBe('escalating');
+    expect(result.cancelScore).toBeGreaterThanOrEqual(result.thread!.aggregate.peakScore);
+
+    // Highlights point into the combined text
+    for (const highlight of result.highlights ?? []) {
+      expect(result.text.slice(highlight.start, highlight.end).toLowerCase()).toBe(highlight.phrase.toLowerCase());
+    }
+  });
+
+  it('names the post that fails validation', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    await expect(pipeline.analyzeThread(['This first post is perfectly fine', 'short'])).rejects.toThrow(/^Post 2:/);
+  });
+});
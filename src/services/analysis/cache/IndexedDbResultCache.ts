@@ -0,0 +1,148 @@
+import type { AnalysisResult } from '@/types';
+import type { CacheEntry, ResultCache, ResultCacheOptions } from './types';
+import { DEFAULT_CACHE_OPTIONS } from './options';
+import { MemoryResultCache } from './MemoryResultCache';
+
+const DB_NAME = 'scandalscope-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'results';
+const LAST_ACCESSED_INDEX = 'lastAccessed';
+
+function toPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Persistent LRU cache in IndexedDB, so results survive reloads.
+ * If the database can't be opened (private browsing, storage disabled)
+ * it keeps working from memory for the rest of the session.
+ */
+export class IndexedDbResultCache implements ResultCache {
+  private db: Promise<IDBDatabase> | null = null;
+  private fallback: MemoryResultCache | null = null;
+
+  constructor(
+    private options: ResultCacheOptions = DEFAULT_CACHE_OPTIONS,
+    private dbName = DB_NAME
+  ) {}
+
+  get(key: string): Promise<AnalysisResult | undefined> {
+    return this.withStore(
+      async store => {
+        const entry = await toPromise<CacheEntry | undefined>(store.get(key));
+        if (!entry) return undefined;
+
+        if (Date.now() - entry.createdAt > this.options.ttlMs) {
+          store.delete(key);
+          return undefined;
+        }
+
+        store.put({ ...entry, lastAccessed: Date.now() });
+        return entry.result;
+      },
+      fallback => fallback.get(key)
+    );
+  }
+
+  set(key: string, result: AnalysisResult): Promise<void> {
+    return this.withStore(
+      async store => {
+        const now = Date.now();
+        const entry: CacheEntry = { key, result, createdAt: now, lastAccessed: now };
+        store.put(entry);
+
+        const excess = (await toPromise(store.count())) - this.options.maxEntries;
+        if (excess > 0) {
+          await this.evictLeastRecentlyUsed(store, excess);
+        }
+      },
+      fallback => fallback.set(key, result)
+    );
+  }
+
+  delete(key: string): Promise<void> {
+    return this.withStore(
+      async store => {
+        store.delete(key);
+      },
+      fallback => fallback.delete(key)
+    );
+  }
+
+  clear(): Promise<void> {
+    return this.withStore(
+      async store => {
+        store.clear();
+      },
+      fallback => fallback.clear()
+    );
+  }
+
+  private evictLeastRecentlyUsed(store: IDBObjectStore, count: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let remaining = count;
+      const request = store.index(LAST_ACCESSED_INDEX).openCursor();
+
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor || remaining <= 0) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        remaining--;
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  private async withStore<T>(
+    run: (store: IDBObjectStore) => Promise<T>,
+    onFallback: (fallback: MemoryResultCache) => Promise<T>
+  ): Promise<T> {
+    if (this.fallback) {
+      return onFallback(this.fallback);
+    }
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(STORE_NAME, 'readwrite');
+      const done = transactionDone(transaction);
+      const value = await run(transaction.objectStore(STORE_NAME));
+      await done;
+      return value;
+    } catch (error) {
+      console.warn('Result cache unavailable, caching in memory instead:', error);
+      this.fallback = new MemoryResultCache(this.options);
+      return onFallback(this.fallback);
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex(LAST_ACCESSED_INDEX, 'lastAccessed');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.db;
+  }
+}
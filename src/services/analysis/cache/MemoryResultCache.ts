@@ -0,0 +1,46 @@
+import type { AnalysisResult } from '@/types';
+import type { CacheEntry, ResultCache, ResultCacheOptions } from './types';
+import { DEFAULT_CACHE_OPTIONS } from './options';
+
+/**
+ * In-memory LRU cache. A Map iterates in insertion order, so re-inserting on
+ * every read keeps the least recently used entry first.
+ */
+export class MemoryResultCache implements ResultCache {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private options: ResultCacheOptions = DEFAULT_CACHE_OPTIONS) {}
+
+  async get(key: string): Promise<AnalysisResult | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (Date.now() - entry.createdAt > this.options.ttlMs) {
+      return undefined;
+    }
+
+    this.entries.set(key, { ...entry, lastAccessed: Date.now() });
+    return entry.result;
+  }
+
+  async set(key: string, result: AnalysisResult): Promise<void> {
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, { key, result, createdAt: now, lastAccessed: now });
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
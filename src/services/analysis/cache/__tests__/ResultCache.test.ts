@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { AnalysisResult } from '@/types';
+import { MemoryResultCache, createCacheKey } from '@/services/analysis/cache';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+import { toxicityProviders } from '@/services/analysis/providers';
+
+vi.stubEnv('VITE_OPENAI_API_KEY', '');
+
+const result = (id: string) => ({ id }) as AnalysisResult;
+
+describe('MemoryResultCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently used entry', async () => {
+    const cache = new MemoryResultCache({ ttlMs: 60_000, maxEntries: 2 });
+    await cache.set('a', result('a'));
+    await cache.set('b', result('b'));
+    await cache.get('a');
+    await cache.set('c', result('c'));
+
+    expect(await cache.get('a')).toEqual(result('a'));
+    expect(await cache.get('b')).toBeUndefined();
+    expect(await cache.get('c')).toEqual(result('c'));
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryResultCache({ ttlMs: 1000, maxEntries: 10 });
+    await cache.set('a', result('a'));
+
+    vi.advanceTimersByTime(1001);
+
+    expect(await cache.get('a')).toBeUndefined();
+  });
+});
+
+describe('createCacheKey', () => {
+  it('gives posts that share an opening different keys', async () => {
+    const opening = 'x'.repeat(100);
+    expect(await createCacheKey(`${opening} one`, {}, '1')).not.toBe(await createCacheKey(`${opening} two`, {}, '1'));
+  });
+
+  it('includes the version and config but not bypassCache or key order', async () => {
+    const key = await createCacheKey('text', { profile: 'default', language: 'en' }, '1');
+
+    expect(await createCacheKey('text', { language: 'en', profile: 'default', bypassCache: true }, '1')).toBe(key);
+    expect(await createCacheKey('text', { profile: 'default', language: 'en' }, '2')).not.toBe(key);
+    expect(await createCacheKey('text', { profile: 'linkedin', language: 'en' }, '1')).not.toBe(key);
+  });
+
+  it('keeps thread posts apart from the same text analyzed alone', async () => {
+    expect(await createCacheKey('text', {}, '1', true)).not.toBe(await createCacheKey('text', {}, '1'));
+  });
+});
+
+describe('pipeline caching', () => {
+  it('re-runs every stage with bypassCache and caches the fresh result', async () => {
+    const pipeline = new AnalysisPipelineImpl(toxicityProviders, new MemoryResultCache());
+    const text = 'This is a perfectly normal post about the weather';
+    const first = await pipeline.analyzeText(text, { provider: 'lexicon' });
+    const score = vi.fn();
+    pipeline.addHook('score', 'before', score);
+
+    const fresh = await pipeline.analyzeText(text, { provider: 'lexicon', bypassCache: true });
+
+    expect(score).toHaveBeenCalledOnce();
+    expect(fresh).not.toBe(first);
+    expect((await pipeline.analyzeText(text, { provider: 'lexicon' })).cancelScore).toBe(fresh.cancelScore);
+    expect(score).toHaveBeenCalledOnce();
+  });
+
+  it('does not cache results from an unconfigured or failing provider', async () => {
+    const pipeline = new AnalysisPipelineImpl(toxicityProviders, new MemoryResultCache());
+    const text = 'This is a perfectly normal post about the weather';
+
+    const score = vi.fn();
+    pipeline.addHook('score', 'before', score);
+
+    const mock = await pipeline.analyzeText(text, { provider: 'perspective' });
+    await pipeline.analyzeText(text, { provider: 'perspective' });
+
+    expect(mock.source).toBe('mock');
+    expect(score).toHaveBeenCalledTimes(2);
+  });
+});
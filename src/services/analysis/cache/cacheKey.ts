@@ -0,0 +1,43 @@
+import type { AnalysisConfig } from '@/types';
+
+// JSON with sorted keys, so equal configs give equal keys whatever order they were built in
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function sha256(input: string): Promise<string | null> {
+  // crypto.subtle only exists in secure contexts
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) return null;
+
+  const digest = await subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Cache key for an analysis: engine version, config and a SHA-256 of the text.
+ * Without Web Crypto the raw text is used instead of its hash, which is longer but just as exact.
+ * `bypassCache` is left out since it only controls how the cache is used. Thread posts skip the
+ * roast, so they get their own keys rather than sharing one with the same text analyzed alone.
+ */
+export async function createCacheKey(
+  text: string,
+  config: Partial<AnalysisConfig>,
+  version: string,
+  threadPost = false
+): Promise<string> {
+  const configKey = stableStringify({ ...config, bypassCache: undefined });
+  const textKey = (await sha256(text)) ?? text;
+  return `${version}:${threadPost ? 'thread-post:' : ''}${configKey}:${textKey}`;
+}
@@ -0,0 +1,17 @@
+import type { ResultCache, ResultCacheOptions } from './types';
+import { DEFAULT_CACHE_OPTIONS } from './options';
+import { MemoryResultCache } from './MemoryResultCache';
+import { IndexedDbResultCache } from './IndexedDbResultCache';
+
+export type { ResultCache, ResultCacheOptions, CacheEntry } from './types';
+export { DEFAULT_CACHE_OPTIONS } from './options';
+export { MemoryResultCache } from './MemoryResultCache';
+export { IndexedDbResultCache } from './IndexedDbResultCache';
+export { createCacheKey } from './cacheKey';
+
+// Persistent where IndexedDB exists (browser and worker), in memory elsewhere
+export function createResultCache(options: ResultCacheOptions = DEFAULT_CACHE_OPTIONS): ResultCache {
+  return typeof indexedDB === 'undefined'
+    ? new MemoryResultCache(options)
+    : new IndexedDbResultCache(options);
+}
@@ -0,0 +1,6 @@
+import type { ResultCacheOptions } from './types';
+
+export const DEFAULT_CACHE_OPTIONS: ResultCacheOptions = {
+  ttlMs: 24 * 60 * 60 * 1000, // 1 day
+  maxEntries: 200,
+};
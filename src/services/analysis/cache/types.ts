@@ -0,0 +1,23 @@
+import type { AnalysisResult } from '@/types';
+
+export interface ResultCacheOptions {
+  ttlMs: number;       // Entries older than this are treated as missing
+  maxEntries: number;  // Least recently used entries are evicted past this
+}
+
+/**
+ * Store for finished analyses, keyed by `createCacheKey`
+ */
+export interface ResultCache {
+  get(key: string): Promise<AnalysisResult | undefined>;
+  set(key: string, result: AnalysisResult): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export interface CacheEntry {
+  key: string;
+  result: AnalysisResult;
+  createdAt: number;
+  lastAccessed: number;
+}
@@ -0,0 +1,127 @@
+import type { AnalysisCategories, RiskLevel } from '@/types';
+import type { ChatMessage } from '@/services/llm';
+import { getLanguageName } from '@/utils/language';
+import {
+  detectPromptInjection,
+  wrapUntrusted,
+  unescapeUntrusted,
+  UNTRUSTED_CONTENT_RULE,
+  INJECTION_WARNING
+} from '@/utils/promptSafety';
+
+// Recorded in provenance as the roast prompt; bump it whenever the prompt or the schema changes
+export const COMMENTARY_PROMPT_VERSION = '3';
+
+const MAX_ROAST_LENGTH = 280;
+const MAX_APOLOGY_LENGTH = 600;
+const MAX_RECOMMENDATIONS = 5;
+const MAX_RECOMMENDATION_LENGTH = 200;
+const MAX_FLAGGED_PHRASES = 10;
+
+/**
+ * The parts of a structured LLM reply that passed validation.
+ * A missing field was absent or malformed and falls back to the templates.
+ */
+export interface LlmCommentary {
+  roast?: string;
+  apology?: string;
+  recommendations?: string[];
+  flaggedPhrases?: string[];       // Always phrases that occur in the analyzed text
+}
+
+export interface CommentaryRequest {
+  text: string;
+  riskLevel: RiskLevel;
+  categories: AnalysisCategories;
+  personality: string;
+  language: string;
+  stricterInstruction?: string | undefined;  // Set when an earlier reply failed moderation
+}
+
+const PERSONALITY_PROMPTS = {
+  sarcastic: 'sarcastic but clever',
+  witty: 'witty and intelligent',
+  brutal: 'brutally honest but not mean-spirited',
+  friendly: 'friendly and teasing',
+} as const;
+
+const RESPONSE_SCHEMA = `{
+  "roast": string,             // under ${MAX_ROAST_LENGTH} characters
+  "apology": string,           // a sincere apology the author could post, under ${MAX_APOLOGY_LENGTH} characters
+  "recommendations": string[], // 1-${MAX_RECOMMENDATIONS} concrete edits to this post, each under ${MAX_RECOMMENDATION_LENGTH} characters
+  "flaggedPhrases": string[]   // exact phrases copied from the post that carry the risk; [] if none
+}`;
+
+export function buildCommentaryMessages(request: CommentaryRequest): ChatMessage[] {
+  const { text, riskLevel, categories, personality, language, stricterInstruction } = request;
+  const tone = PERSONALITY_PROMPTS[personality as keyof typeof PERSONALITY_PROMPTS] ?? PERSONALITY_PROMPTS.sarcastic;
+  const topCategories = (Object.entries(categories) as [keyof AnalysisCategories, number][])
+    .filter(([, value]) => value >= 20)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, 3)
+    .map(([category, value]) => `${category} ${Math.round(value)}`);
+  const languageHint = language === 'en' ? '' : ` Write every string in ${getLanguageName(language)}.`;
+  const injectionHint = detectPromptInjection(text).suspicious ? `\n${INJECTION_WARNING}` : '';
+  const stricterHint = stricterInstruction ? `\n${stricterInstruction}` : '';
+
+  return [
+    {
+      role: 'system',
+      content: `You review social media posts before they are published. Reply with a single JSON object matching this schema and nothing else:\n${RESPONSE_SCHEMA}\nThe roast is ${tone} and shareable. Recommendations refer to the post's actual wording.${languageHint}\n${UNTRUSTED_CONTENT_RULE}${injectionHint}${stricterHint}`,
+    },
+    {
+      role: 'user',
+      content: `Risk level: ${riskLevel.toLowerCase()}\nHighest category scores (0-100): ${topCategories.join(', ') || 'none'}\n${wrapUntrusted(text)}`,
+    },
+  ];
+}
+
+function readString(value: unknown, maxLength: number): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  // The post was sent escaped, and phrases quoted from it may come back that way
+  const trimmed = unescapeUntrusted(value).trim();
+  return trimmed && trimmed.length <= maxLength ? trimmed : undefined;
+}
+
+function readStringList(value: unknown, maxItems: number, maxLength: number): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  return value
+    .map(item => readString(item, maxLength))
+    .filter((item): item is string => item !== undefined)
+    .slice(0, maxItems);
+}
+
+/**
+ * Validate a structured reply field by field, so one bad field doesn't throw
+ * away the others. Unparseable replies yield an empty commentary.
+ */
+export function parseCommentary(content: string, text: string): LlmCommentary {
+  let data: unknown;
+  try {
+    // Some models wrap JSON in a code fence even when asked not to
+    data = JSON.parse(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    return {};
+  }
+  if (!data || typeof data !== 'object') return {};
+
+  const reply = data as Partial<Record<keyof LlmCommentary, unknown>>;
+  const commentary: LlmCommentary = {};
+
+  const roast = readString(reply.roast, MAX_ROAST_LENGTH);
+  if (roast) commentary.roast = roast;
+
+  const apology = readString(reply.apology, MAX_APOLOGY_LENGTH);
+  if (apology) commentary.apology = apology;
+
+  const recommendations = readStringList(reply.recommendations, MAX_RECOMMENDATIONS, MAX_RECOMMENDATION_LENGTH);
+  if (recommendations?.length) commentary.recommendations = recommendations;
+
+  // Phrases the model made up or paraphrased can't be pointed at in the post
+  const lowerText = text.toLowerCase();
+  const flaggedPhrases = readStringList(reply.flaggedPhrases, MAX_FLAGGED_PHRASES, MAX_RECOMMENDATION_LENGTH)
+    ?.filter(phrase => lowerText.includes(phrase.toLowerCase()));
+  if (flaggedPhrases) commentary.flaggedPhrases = Array.from(new Set(flaggedPhrases));
+
+  return commentary;
+}
@@ -0,0 +1,123 @@
+import type { AnalysisCategories, EnsembleConfig, EnsembleReport, EnsembleStrategy, ProviderScores } from '@/types';
+import type { ToxicityProviderOptions, ToxicityProviderRegistry } from './providers';
+import { CATEGORY_KEYS, normalizeCategories, toxicityProviders } from './providers';
+
+// Spread (highest minus lowest score) at which providers are flagged as disagreeing on a category
+export const DIVERGENCE_THRESHOLD = 40;
+// Categories every provider scores below this are left out of the disagreement measure
+const ACTIVE_CATEGORY_FLOOR = 10;
+
+/**
+ * Merge several providers' categories into one set
+ */
+export function mergeProviderScores(
+  scores: readonly ProviderScores[],
+  strategy: EnsembleStrategy,
+  weights: Readonly<Record<string, number>> = {}
+): AnalysisCategories {
+  const merged: Partial<Record<keyof AnalysisCategories, number>> = {};
+
+  for (const key of CATEGORY_KEYS) {
+    const values = scores.map(score => score.categories[key]);
+
+    if (strategy === 'max') {
+      merged[key] = Math.max(0, ...values);
+    } else {
+      const providerWeights = scores.map(score =>
+        strategy === 'weighted' ? Math.max(weights[score.providerId] ?? 1, 0) : 1
+      );
+      const totalWeight = providerWeights.reduce((sum, weight) => sum + weight, 0);
+      merged[key] = totalWeight > 0
+        ? values.reduce((sum, value, index) => sum + value * (providerWeights[index] ?? 0), 0) / totalWeight
+        : 0;
+    }
+  }
+
+  return normalizeCategories(merged);
+}
+
+/**
+ * How far apart the providers are. Disagreement is the mean spread, as a 0-1 share,
+ * over categories at least one provider considers present; a text every provider
+ * calls clean counts as unanimous.
+ */
+export function measureDisagreement(scores: readonly ProviderScores[]): Pick<
+  EnsembleReport,
+  'spreads' | 'disagreement' | 'divergentCategories'
+> {
+  const spreads = {} as Record<keyof AnalysisCategories, number>;
+  const activeSpreads: number[] = [];
+
+  for (const key of CATEGORY_KEYS) {
+    const values = scores.map(score => score.categories[key]);
+    const high = Math.max(0, ...values);
+    spreads[key] = values.length > 1 ? high - Math.min(...values) : 0;
+
+    if (high >= ACTIVE_CATEGORY_FLOOR) {
+      activeSpreads.push(spreads[key]);
+    }
+  }
+
+  const disagreement = activeSpreads.length > 0
+    ? activeSpreads.reduce((sum, spread) => sum + spread, 0) / activeSpreads.length / 100
+    : 0;
+
+  return {
+    spreads,
+    disagreement,
+    divergentCategories: CATEGORY_KEYS.filter(key => spreads[key] >= DIVERGENCE_THRESHOLD),
+  };
+}
+
+/**
+ * Score text with every listed provider in parallel. Providers that are
+ * unconfigured or fail are reported in `failed` rather than failing the ensemble.
+ */
+export async function runEnsemble(
+  registry: ToxicityProviderRegistry,
+  providerIds: readonly string[],
+  text: string,
+  options: ToxicityProviderOptions
+): Promise<{ scores: ProviderScores[]; failed: string[] }> {
+  const providers = providerIds.map(id => {
+    const provider = registry.get(id);
+    if (!provider) {
+      throw new Error(`Unknown toxicity provider: ${id}`);
+    }
+    return provider;
+  });
+
+  const settled = await Promise.allSettled(
+    providers.map(async provider => {
+      if (!provider.isAvailable()) {
+        throw new Error(`${provider.name} is not configured`);
+      }
+      return provider.analyze(text, options);
+    })
+  );
+
+  const scores: ProviderScores[] = [];
+  const failed: string[] = [];
+
+  settled.forEach((outcome, index) => {
+    const provider = providers[index]!;
+    if (outcome.status === 'fulfilled') {
+      scores.push({ providerId: provider.id, name: provider.name, categories: outcome.value });
+    } else {
+      console.warn(`${provider.name} skipped in ensemble:`, outcome.reason);
+      failed.push(provider.id);
+    }
+  });
+
+  return { scores, failed };
+}
+
+/**
+ * Every configured provider, averaged. This is what the UI's "Compare providers" setting sends.
+ */
+export function createDefaultEnsemble(registry: ToxicityProviderRegistry = toxicityProviders): EnsembleConfig {
+  return {
+    providers: registry.list().filter(provider => provider.isAvailable()).map(provider => provider.id),
+    strategy: 'mean',
+  };
+}
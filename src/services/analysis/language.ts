@@ -0,0 +1,21 @@
+import { detectLanguage } from '@/utils/language';
+import { isLanguageSupported } from './lexicon';
+
+export interface ResolvedLanguage {
+  language: string;
+  supported: boolean; // A lexicon and templates exist for the language
+}
+
+// Unsupported languages are still scored, but mostly by what the English lexicon happens to catch
+export const UNSUPPORTED_LANGUAGE_CONFIDENCE = 0.5;
+
+/**
+ * Use the requested language, or detect it when none (or 'auto') was requested
+ */
+export function resolveLanguage(text: string, requested?: string): ResolvedLanguage {
+  const language = requested && requested !== 'auto'
+    ? requested.toLowerCase()
+    : detectLanguage(text).language;
+
+  return { language, supported: isLanguageSupported(language) };
+}
@@ -0,0 +1,122 @@
+import type { AnalysisCategories, RiskHighlight } from '@/types';
+import type { Lexicon } from './lexicons';
+import { EN_LEXICON } from './lexicons';
+import { combineWeights } from '../scoring';
+import { detectSpam } from '../spam';
+import type { SpamSignal } from '../spam';
+
+export interface LexiconScore {
+  readonly categories: AnalysisCategories;
+  readonly matches: readonly RiskHighlight[];
+  readonly spamSignals: readonly SpamSignal[];
+  readonly lexiconVersion: string;
+}
+
+interface CompiledEntry {
+  category: keyof AnalysisCategories;
+  weight: number;
+  pattern: RegExp;
+}
+
+const compiledLexicons = new WeakMap<Lexicon, CompiledEntry[]>();
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function compileTerm(term: string): RegExp {
+  const isPrefix = term.endsWith('*');
+  const body = escapeRegExp(isPrefix ? term.slice(0, -1) : term).replace(/\s+/g, '\\s+');
+  const tail = isPrefix ? '[\\p{L}\\p{M}\\p{N}]*' : '';
+
+  // Unicode-aware word boundaries so the same matcher works for non-Latin lexicons.
+  // Combining marks count as word characters so Devanagari vowel signs don't end a word.
+  return new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])${body}${tail}(?![\\p{L}\\p{M}\\p{N}])`, 'giu');
+}
+
+function compile(lexicon: Lexicon): CompiledEntry[] {
+  const cached = compiledLexicons.get(lexicon);
+  if (cached) return cached;
+
+  const compiled: CompiledEntry[] = [];
+  for (const [category, entries] of Object.entries(lexicon.categories)) {
+    for (const entry of entries) {
+      compiled.push({
+        category: category as keyof AnalysisCategories,
+        weight: entry.weight,
+        pattern: compileTerm(entry.term),
+      });
+    }
+  }
+
+  compiledLexicons.set(lexicon, compiled);
+  return compiled;
+}
+
+/**
+ * Writing-style signals that raise general toxicity regardless of vocabulary
+ */
+function getStyleWeights(text: string): number[] {
+  const weights: number[] = [];
+  const capsWords = text.split(/\s+/).filter(word => /\p{L}/u.test(word) && word === word.toUpperCase() && word.length > 2);
+
+  if (capsWords.length > 2) weights.push(10); // Excessive caps
+  if (text.includes('!!!') || text.includes('???')) weights.push(5); // Excessive punctuation
+  if (text.length > 500) weights.push(5); // Long rants
+
+  return weights;
+}
+
+/**
+ * Deterministically score text against a weighted lexicon.
+ * Identical text and lexicon version always produce identical categories.
+ */
+export function scoreText(text: string, lexicon: Lexicon = EN_LEXICON): LexiconScore {
+  const weights: Record<keyof AnalysisCategories, number[]> = {
+    toxicity: getStyleWeights(text),
+    identity_attack: [],
+    insult: [],
+    profanity: [],
+    threat: [],
+    sexually_explicit: [],
+    flirtation: [],
+    spam: [],
+  };
+  const matches: RiskHighlight[] = [];
+
+  for (const entry of compile(lexicon)) {
+    entry.pattern.lastIndex = 0;
+    for (const match of text.matchAll(entry.pattern)) {
+      const start = match.index ?? 0;
+      weights[entry.category].push(entry.weight);
+      matches.push({
+        start,
+        end: start + match[0].length,
+        phrase: match[0],
+        category: entry.category,
+        contribution: entry.weight,
+      });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || b.contribution - a.contribution);
+
+  // Spam phrases are one signal among several; the detector weighs them with links, hashtags, etc.
+  const spam = detectSpam(text, weights.spam, lexicon.language);
+
+  return {
+    categories: {
+      toxicity: combineWeights(weights.toxicity),
+      identity_attack: combineWeights(weights.identity_attack),
+      insult: combineWeights(weights.insult),
+      profanity: combineWeights(weights.profanity),
+      threat: combineWeights(weights.threat),
+      sexually_explicit: combineWeights(weights.sexually_explicit),
+      flirtation: combineWeights(weights.flirtation),
+      spam: spam.score,
+    },
+    matches,
+    spamSignals: spam.signals,
+    lexiconVersion: lexicon.version,
+  };
+}
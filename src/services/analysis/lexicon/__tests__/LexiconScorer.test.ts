@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { scoreText, EN_LEXICON } from '@/services/analysis/lexicon';
+import type { Lexicon } from '@/services/analysis/lexicon';
+
+describe('scoreText', () => {
+  it('returns identical scores for identical text', () => {
+    const text = 'Honestly this is the worst, most stupid take I have ever read. What a clown.';
+
+    expect(scoreText(text)).toEqual(scoreText(text));
+  });
+
+  it('scores neutral text as zero across categories', () => {
+    const { categories, matches } = scoreText('The weather has been really nice lately, perfect for a walk');
+
+    expect(Object.values(categories).every(value => value === 0)).toBe(true);
+    expect(matches).toHaveLength(0);
+  });
+
+  it('matches whole words and prefix terms case-insensitively', () => {
+    const { categories, matches } = scoreText('IDIOTS everywhere, but the hotel was nice');
+
+    expect(matches.map(match => match.phrase)).toContain('IDIOTS');
+    // "hotel" must not trigger the "hot" flirtation term
+    expect(categories.flirtation).toBe(0);
+    expect(categories.insult).toBe(60);
+  });
+
+  it('combines repeated matches with diminishing returns', () => {
+    const once = scoreText('you are stupid').categories.insult;
+    const twice = scoreText('you are stupid, so stupid').categories.insult;
+
+    expect(twice).toBeGreaterThan(once);
+    expect(twice).toBeLessThanOrEqual(100);
+  });
+
+  it('reports match offsets into the original text', () => {
+    const text = 'Well damn, that was a dumb idea';
+    const { matches } = scoreText(text);
+
+    for (const match of matches) {
+      expect(text.slice(match.start, match.end)).toBe(match.phrase);
+    }
+  });
+
+  it('scores against the lexicon it is given and reports its version', () => {
+    const custom: Lexicon = {
+      ...EN_LEXICON,
+      version: 'test-1',
+      categories: { ...EN_LEXICON.categories, spam: [{ term: 'synergy', weight: 90 }] },
+    };
+
+    const result = scoreText('Unlock synergy today', custom);
+
+    expect(result.categories.spam).toBe(90);
+    expect(result.lexiconVersion).toBe('test-1');
+  });
+});
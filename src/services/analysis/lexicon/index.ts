@@ -0,0 +1,5 @@
+export type { Lexicon, LexiconEntry, CategoryLexicon } from './lexicons';
+export type { LexiconScore } from './LexiconScorer';
+export { EN_LEXICON, LEXICON_VERSION } from './lexicons';
+export { LEXICONS, SUPPORTED_LANGUAGES, getLexicon, isLanguageSupported } from './registry';
+export { scoreText } from './LexiconScorer';
@@ -0,0 +1,99 @@
+import type { Lexicon } from '../lexicons';
+
+export const DE_LEXICON: Lexicon = {
+  version: '1.0.0',
+  language: 'de',
+  categories: {
+    toxicity: [
+      { term: 'hasse', weight: 35 },
+      { term: 'hass', weight: 35 },
+      { term: 'dumm*', weight: 30 },
+      { term: 'idiot*', weight: 35 },
+      { term: 'blöd*', weight: 25 },
+      { term: 'ekelhaft*', weight: 25 },
+      { term: 'erbärmlich*', weight: 25 },
+      { term: 'müll', weight: 20 },
+      { term: 'das schlimmste', weight: 15 },
+      { term: 'schrecklich*', weight: 12 },
+      { term: 'halt die klappe', weight: 30 },
+      { term: 'halt dein maul', weight: 35 },
+      { term: 'toxisch*', weight: 15 },
+      { term: 'scheiße', weight: 20 },
+      { term: 'scheisse', weight: 20 },
+    ],
+    identity_attack: [
+      { term: 'ihr leute', weight: 35 },
+      { term: 'diese leute', weight: 35 },
+      { term: 'ihresgleichen', weight: 45 },
+      { term: 'geh zurück in dein land', weight: 70 },
+      { term: 'untermensch*', weight: 80 },
+      { term: 'ungeziefer', weight: 60 },
+      { term: 'minderwertig*', weight: 45 },
+      { term: 'leute wie du', weight: 30 },
+      { term: 'sollte man verbieten', weight: 20 },
+    ],
+    insult: [
+      { term: 'dumm*', weight: 45 },
+      { term: 'idiot*', weight: 60 },
+      { term: 'trottel', weight: 50 },
+      { term: 'vollidiot*', weight: 65 },
+      { term: 'depp*', weight: 45 },
+      { term: 'arschloch', weight: 75 },
+      { term: 'versager*', weight: 45 },
+      { term: 'clown*', weight: 35 },
+      { term: 'erbärmlich*', weight: 40 },
+      { term: 'hässlich*', weight: 40 },
+      { term: 'wertlos*', weight: 55 },
+      { term: 'unfähig*', weight: 40 },
+      { term: 'hirntot*', weight: 55 },
+    ],
+    profanity: [
+      { term: 'scheiße', weight: 60 },
+      { term: 'scheisse', weight: 60 },
+      { term: 'verdammt*', weight: 30 },
+      { term: 'mist', weight: 20 },
+      { term: 'fick*', weight: 80 },
+      { term: 'arsch', weight: 45 },
+      { term: 'arschloch', weight: 75 },
+      { term: 'schlampe*', weight: 70 },
+      { term: 'hurensohn', weight: 80 },
+    ],
+    threat: [
+      { term: 'töten', weight: 60 },
+      { term: 'ich bring dich um', weight: 85 },
+      { term: 'zerstören', weight: 30 },
+      { term: 'dir wehtun', weight: 65 },
+      { term: 'pass auf dich auf', weight: 40 },
+      { term: 'ich weiß wo du wohnst', weight: 85 },
+      { term: 'das wirst du bereuen', weight: 50 },
+      { term: 'bombe', weight: 50 },
+      { term: 'waffe*', weight: 30 },
+    ],
+    sexually_explicit: [
+      { term: 'sexy', weight: 35 },
+      { term: 'nackt*', weight: 50 },
+      { term: 'porno*', weight: 75 },
+      { term: 'geil', weight: 45 },
+      { term: 'sex', weight: 40 },
+      { term: 'onlyfans', weight: 45 },
+    ],
+    flirtation: [
+      { term: 'süß*', weight: 25 },
+      { term: 'hübsch*', weight: 20 },
+      { term: 'heiß', weight: 25 },
+      { term: 'schatz', weight: 30 },
+      { term: 'schreib mir privat', weight: 35 },
+      { term: 'geh mit mir aus', weight: 45 },
+      { term: 'zwinker*', weight: 20 },
+    ],
+    spam: [
+      { term: 'hier klicken', weight: 50 },
+      { term: 'link in der bio', weight: 35 },
+      { term: 'gewinnspiel', weight: 35 },
+      { term: 'gratis geld', weight: 55 },
+      { term: 'nur für kurze zeit', weight: 30 },
+      { term: 'jetzt kaufen', weight: 40 },
+      { term: 'rabattcode', weight: 30 },
+    ],
+  },
+};
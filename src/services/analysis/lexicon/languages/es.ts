@@ -0,0 +1,96 @@
+import type { Lexicon } from '../lexicons';
+
+export const ES_LEXICON: Lexicon = {
+  version: '1.0.0',
+  language: 'es',
+  categories: {
+    toxicity: [
+      { term: 'odio', weight: 35 },
+      { term: 'estúpid*', weight: 30 },
+      { term: 'idiota*', weight: 35 },
+      { term: 'imbécil*', weight: 35 },
+      { term: 'tont*', weight: 25 },
+      { term: 'asqueros*', weight: 25 },
+      { term: 'patétic*', weight: 25 },
+      { term: 'basura', weight: 20 },
+      { term: 'lo peor', weight: 15 },
+      { term: 'horrible', weight: 12 },
+      { term: 'cállate', weight: 25 },
+      { term: 'tóxic*', weight: 15 },
+      { term: 'mierda', weight: 20 },
+      { term: 'joder', weight: 30 },
+    ],
+    identity_attack: [
+      { term: 'ustedes los', weight: 35 },
+      { term: 'esa gente', weight: 35 },
+      { term: 'los de su clase', weight: 45 },
+      { term: 'vuelve a tu país', weight: 70 },
+      { term: 'infrahuman*', weight: 75 },
+      { term: 'alimañas', weight: 60 },
+      { term: 'inferiores', weight: 35 },
+      { term: 'gente como tú', weight: 30 },
+      { term: 'deberían prohibir*', weight: 20 },
+    ],
+    insult: [
+      { term: 'estúpid*', weight: 45 },
+      { term: 'idiota*', weight: 60 },
+      { term: 'imbécil*', weight: 60 },
+      { term: 'tont*', weight: 40 },
+      { term: 'perdedor*', weight: 45 },
+      { term: 'payaso*', weight: 35 },
+      { term: 'patétic*', weight: 40 },
+      { term: 'feo', weight: 40 },
+      { term: 'fea', weight: 40 },
+      { term: 'inútil*', weight: 55 },
+      { term: 'incompetente*', weight: 40 },
+      { term: 'gilipollas', weight: 65 },
+      { term: 'pendejo*', weight: 60 },
+    ],
+    profanity: [
+      { term: 'mierda', weight: 60 },
+      { term: 'joder', weight: 70 },
+      { term: 'coño', weight: 70 },
+      { term: 'puta*', weight: 75 },
+      { term: 'cabrón*', weight: 65 },
+      { term: 'carajo', weight: 45 },
+      { term: 'hostia', weight: 35 },
+      { term: 'maldit*', weight: 30 },
+    ],
+    threat: [
+      { term: 'matar*', weight: 60 },
+      { term: 'te voy a matar', weight: 85 },
+      { term: 'destruir', weight: 30 },
+      { term: 'hacerte daño', weight: 65 },
+      { term: 'cuidado con lo que dices', weight: 50 },
+      { term: 'sé dónde vives', weight: 85 },
+      { term: 'te arrepentirás', weight: 50 },
+      { term: 'bomba', weight: 50 },
+      { term: 'arma*', weight: 30 },
+    ],
+    sexually_explicit: [
+      { term: 'sexy', weight: 35 },
+      { term: 'desnud*', weight: 50 },
+      { term: 'porno*', weight: 75 },
+      { term: 'cachond*', weight: 60 },
+      { term: 'sexo', weight: 40 },
+      { term: 'onlyfans', weight: 45 },
+    ],
+    flirtation: [
+      { term: 'guap*', weight: 25 },
+      { term: 'precios*', weight: 20 },
+      { term: 'bombón', weight: 35 },
+      { term: 'mándame un mensaje', weight: 35 },
+      { term: 'sal conmigo', weight: 45 },
+      { term: 'cariño', weight: 25 },
+    ],
+    spam: [
+      { term: 'haz clic aquí', weight: 50 },
+      { term: 'enlace en la bio', weight: 35 },
+      { term: 'sorteo', weight: 35 },
+      { term: 'dinero gratis', weight: 55 },
+      { term: 'tiempo limitado', weight: 30 },
+      { term: 'compra ahora', weight: 40 },
+      { term: 'código promocional', weight: 30 },
+    ],
+  },
+};
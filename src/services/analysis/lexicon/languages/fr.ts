@@ -0,0 +1,101 @@
+import type { Lexicon } from '../lexicons';
+
+export const FR_LEXICON: Lexicon = {
+  version: '1.0.0',
+  language: 'fr',
+  categories: {
+    toxicity: [
+      { term: 'déteste', weight: 35 },
+      { term: 'haine', weight: 35 },
+      { term: 'stupide*', weight: 30 },
+      { term: 'idiot*', weight: 35 },
+      { term: 'imbécile*', weight: 35 },
+      { term: 'débile*', weight: 30 },
+      { term: 'dégueulasse*', weight: 25 },
+      { term: 'pathétique*', weight: 25 },
+      { term: 'nul', weight: 15 },
+      { term: 'nulle', weight: 15 },
+      { term: 'le pire', weight: 15 },
+      { term: 'horrible', weight: 12 },
+      { term: 'ta gueule', weight: 30 },
+      { term: 'toxique*', weight: 15 },
+      { term: 'merde', weight: 20 },
+      { term: 'putain', weight: 30 },
+    ],
+    identity_attack: [
+      { term: 'vous autres', weight: 35 },
+      { term: 'ces gens-là', weight: 35 },
+      { term: 'leur espèce', weight: 45 },
+      { term: 'retourne dans ton pays', weight: 70 },
+      { term: 'sous-homme*', weight: 75 },
+      { term: 'vermine', weight: 60 },
+      { term: 'inférieur*', weight: 35 },
+      { term: 'les gens comme toi', weight: 30 },
+      { term: 'devraient être interdits', weight: 20 },
+    ],
+    insult: [
+      { term: 'stupide*', weight: 45 },
+      { term: 'idiot*', weight: 60 },
+      { term: 'imbécile*', weight: 60 },
+      { term: 'crétin*', weight: 60 },
+      { term: 'débile*', weight: 45 },
+      { term: 'connard*', weight: 65 },
+      { term: 'conne', weight: 60 },
+      { term: 'abruti*', weight: 50 },
+      { term: 'loser*', weight: 45 },
+      { term: 'clown*', weight: 35 },
+      { term: 'pathétique*', weight: 40 },
+      { term: 'moche*', weight: 40 },
+      { term: 'incompétent*', weight: 40 },
+      { term: 'bon à rien', weight: 55 },
+    ],
+    profanity: [
+      { term: 'merde', weight: 60 },
+      { term: 'putain', weight: 70 },
+      { term: 'bordel', weight: 40 },
+      { term: 'salope*', weight: 75 },
+      { term: 'enculé*', weight: 80 },
+      { term: 'fils de pute', weight: 80 },
+      { term: 'chiant*', weight: 30 },
+      { term: 'fait chier', weight: 45 },
+    ],
+    threat: [
+      { term: 'tuer', weight: 60 },
+      { term: 'je vais te tuer', weight: 85 },
+      { term: 'détruire', weight: 30 },
+      { term: 'te faire du mal', weight: 65 },
+      { term: 'fais gaffe', weight: 45 },
+      { term: 'je sais où tu habites', weight: 85 },
+      { term: 'tu vas le regretter', weight: 50 },
+      { term: 'bombe', weight: 50 },
+      { term: 'arme*', weight: 30 },
+    ],
+    sexually_explicit: [
+      { term: 'sexy', weight: 35 },
+      { term: 'nu', weight: 35 },
+      { term: 'nue*', weight: 50 },
+      { term: 'porno*', weight: 75 },
+      { term: 'excité*', weight: 40 },
+      { term: 'sexe', weight: 40 },
+      { term: 'onlyfans', weight: 45 },
+    ],
+    flirtation: [
+      { term: 'mignon*', weight: 25 },
+      { term: 'canon', weight: 30 },
+      { term: 'magnifique', weight: 20 },
+      { term: 'ma belle', weight: 35 },
+      { term: 'écris-moi en privé', weight: 35 },
+      { term: 'sors avec moi', weight: 45 },
+      { term: 'bisou*', weight: 20 },
+    ],
+    spam: [
+      { term: 'cliquez ici', weight: 50 },
+      { term: 'lien en bio', weight: 35 },
+      { term: 'concours', weight: 25 },
+      { term: 'argent gratuit', weight: 55 },
+      { term: 'offre limitée', weight: 30 },
+      { term: 'achetez maintenant', weight: 40 },
+      { term: 'code promo', weight: 30 },
+    ],
+  },
+};
@@ -0,0 +1,110 @@
+import type { Lexicon } from '../lexicons';
+
+// Devanagari and common romanized (Hinglish) spellings side by side
+export const HI_LEXICON: Lexicon = {
+  version: '1.0.0',
+  language: 'hi',
+  categories: {
+    toxicity: [
+      { term: 'नफ़रत', weight: 35 },
+      { term: 'नफरत', weight: 35 },
+      { term: 'nafrat', weight: 35 },
+      { term: 'बेवकूफ*', weight: 30 },
+      { term: 'bewakoof', weight: 30 },
+      { term: 'bevkoof', weight: 30 },
+      { term: 'मूर्ख', weight: 30 },
+      { term: 'murkh', weight: 30 },
+      { term: 'बकवास', weight: 20 },
+      { term: 'bakwas', weight: 20 },
+      { term: 'घटिया', weight: 25 },
+      { term: 'ghatiya', weight: 25 },
+      { term: 'चुप कर', weight: 25 },
+      { term: 'chup kar', weight: 25 },
+      { term: 'बेकार', weight: 15 },
+      { term: 'bekaar', weight: 15 },
+    ],
+    identity_attack: [
+      { term: 'तुम लोग', weight: 35 },
+      { term: 'tum log', weight: 35 },
+      { term: 'ये लोग', weight: 30 },
+      { term: 'ye log', weight: 30 },
+      { term: 'अपने देश वापस जाओ', weight: 70 },
+      { term: 'apne desh wapas jao', weight: 70 },
+      { term: 'नीच', weight: 50 },
+      { term: 'neech', weight: 50 },
+      { term: 'कीड़े', weight: 55 },
+      { term: 'तुम जैसे लोग', weight: 30 },
+      { term: 'tum jaise log', weight: 30 },
+    ],
+    insult: [
+      { term: 'बेवकूफ*', weight: 45 },
+      { term: 'bewakoof', weight: 45 },
+      { term: 'bevkoof', weight: 45 },
+      { term: 'मूर्ख', weight: 50 },
+      { term: 'murkh', weight: 50 },
+      { term: 'गधा', weight: 45 },
+      { term: 'gadha', weight: 45 },
+      { term: 'पागल', weight: 35 },
+      { term: 'pagal', weight: 35 },
+      { term: 'निकम्मा', weight: 50 },
+      { term: 'nikamma', weight: 50 },
+      { term: 'उल्लू', weight: 35 },
+      { term: 'ullu', weight: 35 },
+      { term: 'जोकर', weight: 35 },
+    ],
+    profanity: [
+      { term: 'कमीना', weight: 60 },
+      { term: 'kamina', weight: 60 },
+      { term: 'kameena', weight: 60 },
+      { term: 'साला', weight: 45 },
+      { term: 'saala', weight: 45 },
+      { term: 'sala', weight: 40 },
+      { term: 'हरामी', weight: 75 },
+      { term: 'harami', weight: 75 },
+      { term: 'कुत्ता', weight: 50 },
+      { term: 'kutta', weight: 50 },
+      { term: 'bc', weight: 70 },
+      { term: 'mc', weight: 70 },
+    ],
+    threat: [
+      { term: 'मार डालूंगा', weight: 85 },
+      { term: 'maar dalunga', weight: 85 },
+      { term: 'जान से मार', weight: 85 },
+      { term: 'jaan se maar', weight: 85 },
+      { term: 'देख लूंगा', weight: 55 },
+      { term: 'dekh lunga', weight: 55 },
+      { term: 'पछताओगे', weight: 50 },
+      { term: 'pachtaoge', weight: 50 },
+      { term: 'बम', weight: 50 },
+      { term: 'हथियार', weight: 30 },
+    ],
+    sexually_explicit: [
+      { term: 'sexy', weight: 35 },
+      { term: 'सेक्सी', weight: 35 },
+      { term: 'नंगा', weight: 50 },
+      { term: 'nanga', weight: 50 },
+      { term: 'पोर्न', weight: 75 },
+      { term: 'porn*', weight: 75 },
+      { term: 'onlyfans', weight: 45 },
+    ],
+    flirtation: [
+      { term: 'जानेमन', weight: 35 },
+      { term: 'jaaneman', weight: 35 },
+      { term: 'सुंदर', weight: 20 },
+      { term: 'sundar', weight: 20 },
+      { term: 'हॉट', weight: 25 },
+      { term: 'dm karo', weight: 35 },
+      { term: 'date pe chalo', weight: 45 },
+    ],
+    spam: [
+      { term: 'यहाँ क्लिक करें', weight: 50 },
+      { term: 'yahan click karo', weight: 50 },
+      { term: 'link in bio', weight: 35 },
+      { term: 'फ्री पैसे', weight: 55 },
+      { term: 'free paise', weight: 55 },
+      { term: 'अभी खरीदें', weight: 40 },
+      { term: 'abhi kharido', weight: 40 },
+      { term: 'giveaway', weight: 35 },
+    ],
+  },
+};
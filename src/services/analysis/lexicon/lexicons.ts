@@ -0,0 +1,136 @@
+import type { AnalysisCategories } from '@/types';
+
+/**
+ * Weighted term lists used by the local scorer.
+ * A weight is the number of points (0-100) a single match contributes to its category.
+ * A trailing `*` matches any word continuation, e.g. `idiot*` matches "idiots" and "idiotic".
+ * Bump the version whenever terms or weights change so stored results stay comparable.
+ */
+
+export interface LexiconEntry {
+  readonly term: string;
+  readonly weight: number;
+}
+
+export type CategoryLexicon = Readonly<Record<keyof AnalysisCategories, readonly LexiconEntry[]>>;
+
+export interface Lexicon {
+  readonly version: string;
+  readonly language: string;
+  readonly categories: CategoryLexicon;
+}
+
+export const EN_LEXICON: Lexicon = {
+  version: '1.0.0',
+  language: 'en',
+  categories: {
+    toxicity: [
+      { term: 'hate', weight: 35 },
+      { term: 'stupid', weight: 30 },
+      { term: 'idiot*', weight: 35 },
+      { term: 'dumb', weight: 25 },
+      { term: 'moron*', weight: 35 },
+      { term: 'worst', weight: 15 },
+      { term: 'terrible', weight: 12 },
+      { term: 'awful', weight: 12 },
+      { term: 'pathetic', weight: 25 },
+      { term: 'disgusting', weight: 25 },
+      { term: 'trash', weight: 20 },
+      { term: 'garbage', weight: 20 },
+      { term: 'loser*', weight: 25 },
+      { term: 'shut up', weight: 25 },
+      { term: 'toxic', weight: 15 },
+      { term: 'cancel', weight: 10 },
+      { term: 'problematic', weight: 10 },
+      { term: 'offensive', weight: 10 },
+      { term: 'inappropriate', weight: 8 },
+      { term: 'fuck*', weight: 30 },
+      { term: 'shit*', weight: 20 },
+    ],
+    identity_attack: [
+      { term: 'you people', weight: 40 },
+      { term: 'those people', weight: 35 },
+      { term: 'their kind', weight: 45 },
+      { term: 'go back to your country', weight: 70 },
+      { term: 'subhuman', weight: 75 },
+      { term: 'vermin', weight: 60 },
+      { term: 'inferior', weight: 35 },
+      { term: 'all of them are', weight: 25 },
+      { term: 'people like you', weight: 30 },
+      { term: 'should be banned', weight: 20 },
+    ],
+    insult: [
+      { term: 'stupid', weight: 45 },
+      { term: 'idiot*', weight: 60 },
+      { term: 'dumb', weight: 40 },
+      { term: 'moron*', weight: 60 },
+      { term: 'loser*', weight: 45 },
+      { term: 'clown*', weight: 35 },
+      { term: 'pathetic', weight: 40 },
+      { term: 'ugly', weight: 40 },
+      { term: 'fat', weight: 25 },
+      { term: 'worthless', weight: 55 },
+      { term: 'incompetent', weight: 40 },
+      { term: 'braindead', weight: 55 },
+      { term: 'tech bros', weight: 15 },
+      { term: 'jerk*', weight: 35 },
+    ],
+    profanity: [
+      { term: 'damn', weight: 30 },
+      { term: 'hell', weight: 20 },
+      { term: 'crap*', weight: 30 },
+      { term: 'shit*', weight: 60 },
+      { term: 'fuck*', weight: 80 },
+      { term: 'bitch*', weight: 70 },
+      { term: 'ass', weight: 45 },
+      { term: 'asshole*', weight: 75 },
+      { term: 'bastard*', weight: 60 },
+      { term: 'wtf', weight: 40 },
+      { term: 'stfu', weight: 50 },
+    ],
+    threat: [
+      { term: 'kill', weight: 60 },
+      { term: 'destroy', weight: 30 },
+      { term: 'hurt you', weight: 65 },
+      { term: 'watch your back', weight: 70 },
+      { term: 'find where you live', weight: 85 },
+      { term: 'you will regret', weight: 50 },
+      { term: "you'll regret", weight: 50 },
+      { term: 'beat you', weight: 60 },
+      { term: 'end you', weight: 65 },
+      { term: 'bomb', weight: 50 },
+      { term: 'weapon*', weight: 30 },
+    ],
+    sexually_explicit: [
+      { term: 'sexy', weight: 35 },
+      { term: 'nude*', weight: 60 },
+      { term: 'naked', weight: 50 },
+      { term: 'porn*', weight: 75 },
+      { term: 'horny', weight: 60 },
+      { term: 'sex', weight: 40 },
+      { term: 'onlyfans', weight: 45 },
+    ],
+    flirtation: [
+      { term: 'cute', weight: 25 },
+      { term: 'beautiful', weight: 20 },
+      { term: 'hot', weight: 25 },
+      { term: 'gorgeous', weight: 25 },
+      { term: 'babe', weight: 35 },
+      { term: 'dm me', weight: 35 },
+      { term: 'date me', weight: 45 },
+      { term: 'wink*', weight: 20 },
+    ],
+    spam: [
+      { term: 'click here', weight: 50 },
+      { term: 'link in bio', weight: 35 },
+      { term: 'giveaway', weight: 35 },
+      { term: 'free money', weight: 55 },
+      { term: 'limited time', weight: 30 },
+      { term: 'buy now', weight: 40 },
+      { term: 'follow for follow', weight: 45 },
+      { term: 'promo code', weight: 30 },
+    ],
+  },
+};
+
+export const LEXICON_VERSION = EN_LEXICON.version;
@@ -0,0 +1,27 @@
+import type { Lexicon } from './lexicons';
+import { EN_LEXICON } from './lexicons';
+import { ES_LEXICON } from './languages/es';
+import { FR_LEXICON } from './languages/fr';
+import { DE_LEXICON } from './languages/de';
+import { HI_LEXICON } from './languages/hi';
+
+// Lexicons by ISO 639-1 code
+export const LEXICONS: Readonly<Record<string, Lexicon>> = {
+  en: EN_LEXICON,
+  es: ES_LEXICON,
+  fr: FR_LEXICON,
+  de: DE_LEXICON,
+  hi: HI_LEXICON,
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LEXICONS);
+
+// Regional variants such as `es-MX` or `hi-Latn` share their base language's lexicon
+export function getLexicon(language: string): Lexicon | undefined {
+  const base = language.toLowerCase().split('-')[0] ?? '';
+  return LEXICONS[base];
+}
+
+export function isLanguageSupported(language: string): boolean {
+  return getLexicon(language) !== undefined;
+}
@@ -0,0 +1,224 @@
+import type { AnalysisResult, AnalysisConfig } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import type { ToxicityProviderRegistry } from '../providers';
+import { toxicityProviders } from '../providers';
+import { getScoringProfile } from '../profiles';
+import { resolveLanguage } from '../language';
+import { MAX_THREAD_POSTS, THREAD_POST_SEPARATOR } from '../thread';
+import type { ResultCache } from '../cache';
+import { createResultCache } from '../cache';
+import { PIPELINE_STAGES, ANALYSIS_VERSION, validateText } from './stages';
+import type { AnalysisContext, AnalysisRunOptions, PipelineDeps, PipelineStageName, QuotaConsumer, StageHook, StageHookPosition } from './types';
+import type { RateLimiter } from '@/services/rateLimit';
+import { rateLimiter } from '@/services/rateLimit';
+
+export interface AnalysisPipeline {
+  analyzeText(text: string, config?: Partial<AnalysisConfig>, options?: AnalysisRunOptions): Promise<AnalysisResult>;
+  analyzeThread(posts: string[], config?: Partial<AnalysisConfig>, options?: AnalysisRunOptions): Promise<AnalysisResult>;
+  validateInput(text: string, language?: string): { isValid: boolean; errors: string[] };
+  addHook(stage: PipelineStageName, position: StageHookPosition, hook: StageHook): () => void;
+}
+
+// Stages a post runs through once it has been validated
+const POST_STAGES: PipelineStageName[] = ['cache', 'rate-limit', 'score', 'aggregate', 'roast', 'apology', 'recommend'];
+// Stages a thread runs once each of its posts has been analyzed
+const THREAD_STAGES: PipelineStageName[] = ['aggregate', 'roast', 'apology', 'recommend'];
+
+type ContextOverrides = Partial<Pick<AnalysisContext, 'threadPost' | 'quota' | 'signal' | 'language' | 'languageSupported' | 'posts' | 'startTime'>>;
+
+export function createAbortError(): Error {
+  return new DOMException('Analysis cancelled', 'AbortError');
+}
+
+function consumeFrom(limiter: RateLimiter): QuotaConsumer {
+  return async budget => ({ allowed: limiter.tryConsume(budget), info: limiter.getInfo(budget) });
+}
+
+/**
+ * Runs an analysis as a fixed sequence of named stages:
+ * validate → cache → rate-limit → score → aggregate → roast → apology → recommend.
+ * Hooks registered before or after a stage see and may change the shared context,
+ * which is how custom steps are added without subclassing.
+ */
+export class AnalysisPipelineImpl implements AnalysisPipeline {
+  private deps: PipelineDeps;
+  private hooks: Record<StageHookPosition, Map<PipelineStageName, StageHook[]>> = {
+    before: new Map(),
+    after: new Map(),
+  };
+
+  constructor(
+    providers: ToxicityProviderRegistry = toxicityProviders,
+    cache: ResultCache = createResultCache(),
+    consumeQuota: QuotaConsumer = consumeFrom(rateLimiter)
+  ) {
+    this.deps = {
+      providers,
+      cache,
+      consumeQuota,
+    };
+  }
+
+  validateInput(text: string, language = 'en'): { isValid: boolean; errors: string[] } {
+    return validateText(text, language);
+  }
+
+  addHook(stage: PipelineStageName, position: StageHookPosition, hook: StageHook): () => void {
+    const hooks = this.hooks[position].get(stage) ?? [];
+    this.hooks[position].set(stage, [...hooks, hook]);
+
+    return () => {
+      this.hooks[position].set(stage, (this.hooks[position].get(stage) ?? []).filter(existing => existing !== hook));
+    };
+  }
+
+  async analyzeText(text: string, config: Partial<AnalysisConfig> = {}, { signal }: AnalysisRunOptions = {}): Promise<AnalysisResult> {
+    const context = this.createContext(text, config, { signal });
+
+    await this.validate(context);
+
+    return this.run(context, POST_STAGES);
+  }
+
+  async analyzeThread(posts: string[], config: Partial<AnalysisConfig> = {}, { signal }: AnalysisRunOptions = {}): Promise<AnalysisResult> {
+    const startTime = performance.now();
+
+    if (posts.length < 2) {
+      throw new Error('A thread needs at least 2 posts');
+    }
+    if (posts.length > MAX_THREAD_POSTS) {
+      throw new Error(`A thread can have at most ${MAX_THREAD_POSTS} posts`);
+    }
+
+    const quota = { charged: false };
+    const contexts = posts.map(post => this.createContext(post, config, { threadPost: true, quota, signal }));
+
+    // Validate every post before spending any quota
+    for (const [index, context] of contexts.entries()) {
+      await this.validate(context, `Post ${index + 1}: `);
+    }
+
+    const results: AnalysisResult[] = [];
+    for (const context of contexts) {
+      results.push(await this.run(context, POST_STAGES));
+    }
+
+    const threadContext = this.createContext(posts.join(THREAD_POST_SEPARATOR), config, {
+      language: results[0]?.language ?? 'en',
+      languageSupported: results.every(result => result.languageSupported !== false),
+      posts: results,
+      signal,
+      startTime,
+    });
+
+    return this.run(threadContext, THREAD_STAGES);
+  }
+
+  private createContext(text: string, config: Partial<AnalysisConfig>, overrides: ContextOverrides = {}): AnalysisContext {
+    const { language, supported } = resolveLanguage(text, config.language);
+
+    return {
+      text,
+      config,
+      profile: getScoringProfile(config.profile),
+      language,
+      languageSupported: supported,
+      startTime: performance.now(),
+      threadPost: false,
+      quota: { charged: false },
+      errors: [],
+      timings: [],
+      ...overrides,
+    };
+  }
+
+  private async validate(context: AnalysisContext, errorPrefix = ''): Promise<void> {
+    await this.runStage('validate', context);
+
+    if (context.errors.length > 0) {
+      throw new Error(`${errorPrefix}${context.errors.join(', ')}`);
+    }
+  }
+
+  private async run(context: AnalysisContext, stages: PipelineStageName[]): Promise<AnalysisResult> {
+    for (const stage of stages) {
+      await this.runStage(stage, context);
+
+      if (context.result) {
+        return context.result;
+      }
+    }
+
+    const result = this.buildResult(context);
+    // Fallback and mock scores would otherwise outlive the outage or missing key behind them
+    if (context.cacheKey && context.source === 'provider') {
+      await this.deps.cache.set(context.cacheKey, result);
+    }
+
+    return result;
+  }
+
+  private async runStage(stage: PipelineStageName, context: AnalysisContext): Promise<void> {
+    if (context.signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const start = performance.now();
+
+    for (const hook of this.hooks.before.get(stage) ?? []) {
+      await hook(context);
+    }
+
+    await PIPELINE_STAGES[stage](context, this.deps);
+
+    for (const hook of this.hooks.after.get(stage) ?? []) {
+      await hook(context);
+    }
+
+    // Hook time counts towards the stage it runs around
+    context.timings.push({ stage, ms: Math.round((performance.now() - start) * 10) / 10 });
+  }
+
+  private buildResult(context: AnalysisContext): AnalysisResult {
+    const { sentences, scoreBreakdown, highlights, ensemble, thread, source, roastPromptVersion, roastAttempts, flaggedPhrases } = context;
+
+    return {
+      id: uuidv4(),
+      text: context.text,
+      cancelScore: context.cancelScore!,
+      riskLevel: context.riskLevel!,
+      roast: context.roast!,
+      apology: context.apology ?? '',
+      timestamp: Date.now(),
+      categories: context.categories!,
+      recommendations: context.recommendations!,
+      confidence: context.confidence!,
+      processingTime: Math.round(performance.now() - context.startTime),
+      version: ANALYSIS_VERSION,
+      ...(sentences && { sentences }),
+      ...(scoreBreakdown && { scoreBreakdown }),
+      profile: context.profile.id,
+      ...(highlights && { highlights }),
+      language: context.language,
+      languageSupported: context.languageSupported,
+      ...(ensemble && { ensemble }),
+      ...(thread && { thread }),
+      ...(source && { source }),
+      ...(flaggedPhrases && { flaggedPhrases }),
+      provenance: {
+        engineVersion: ANALYSIS_VERSION,
+        lexiconVersion: context.lexiconVersion!,
+        ...(roastPromptVersion && { roastPromptVersion }),
+        ...(roastAttempts && { roastAttempts }),
+        profile: context.profile.id,
+        providers: context.providerProvenance ?? [],
+        scoreSource: source!,
+        roastSource: context.roastSource!,
+        stageTimings: context.timings,
+      },
+    };
+  }
+}
+
+// Export singleton instance
+export const analysisPipeline = new AnalysisPipelineImpl();
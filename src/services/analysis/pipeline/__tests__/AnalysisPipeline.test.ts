@@ -0,0 +1,141 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AnalysisPipelineImpl, ANALYSIS_VERSION } from '@/services/analysis/pipeline';
+import type { PipelineStageName } from '@/services/analysis/pipeline';
+import { ToxicityProviderRegistry, LexiconProvider, normalizeCategories } from '@/services/analysis/providers';
+import { LEXICON_VERSION } from '@/services/analysis/lexicon';
+import { MemoryResultCache } from '@/services/analysis/cache';
+
+vi.stubEnv('VITE_OPENAI_API_KEY', '');
+
+const TEXT = 'This is a perfectly normal post about the weather';
+
+describe('AnalysisPipeline', () => {
+  it('runs the stages in order', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const ran: PipelineStageName[] = [];
+    const stages: PipelineStageName[] = ['validate', 'cache', 'rate-limit', 'score', 'aggregate', 'roast', 'apology', 'recommend'];
+    stages.forEach(stage => pipeline.addHook(stage, 'after', () => { ran.push(stage); }));
+
+    await pipeline.analyzeText(TEXT);
+
+    expect(ran).toEqual(stages);
+  });
+
+  it('lets hooks add validation errors and adjust results', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    pipeline.addHook('validate', 'after', context => {
+      if (context.text.includes('forbidden')) context.errors.push('Text mentions a forbidden topic');
+    });
+    pipeline.addHook('recommend', 'after', context => {
+      context.recommendations = [...(context.recommendations ?? []), 'Read it out loud first'];
+    });
+
+    await expect(pipeline.analyzeText('This post is about a forbidden topic')).rejects.toThrow('forbidden topic');
+    expect((await pipeline.analyzeText(TEXT)).recommendations).toContain('Read it out loud first');
+  });
+
+  it('leaves the apology out when includeApology is false', async () => {
+    const pipeline = new AnalysisPipelineImpl(undefined, new MemoryResultCache());
+
+    expect((await pipeline.analyzeText(TEXT)).apology).not.toBe('');
+    expect((await pipeline.analyzeText(TEXT, { includeApology: false })).apology).toBe('');
+  });
+
+  it('skips the remaining stages on a cache hit', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const first = await pipeline.analyzeText(TEXT, { provider: 'lexicon' });
+    const score = vi.fn();
+    pipeline.addHook('score', 'before', score);
+
+    const second = await pipeline.analyzeText(TEXT, { provider: 'lexicon' });
+
+    expect(second).toEqual({ ...first, id: expect.any(String), timestamp: expect.any(Number), processingTime: expect.any(Number) });
+    expect(second.id).not.toBe(first.id);
+    expect(score).not.toHaveBeenCalled();
+  });
+
+  it('removes hooks', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const hook = vi.fn();
+    const remove = pipeline.addHook('aggregate', 'before', hook);
+    remove();
+
+    await pipeline.analyzeText(TEXT);
+
+    expect(hook).not.toHaveBeenCalled();
+  });
+
+  it('records provenance', async () => {
+    const registry = new ToxicityProviderRegistry();
+    registry.register(new LexiconProvider());
+    registry.register({
+      id: 'remote',
+      name: 'Remote',
+      model: 'classifier-2',
+      localCategories: ['spam'],
+      isAvailable: () => true,
+      analyze: async () => normalizeCategories({ insult: 30 }),
+    });
+    const pipeline = new AnalysisPipelineImpl(registry, new MemoryResultCache());
+
+    const { provenance } = await pipeline.analyzeText(TEXT, { provider: 'remote', profile: 'linkedin' });
+
+    expect(provenance).toMatchObject({
+      engineVersion: ANALYSIS_VERSION,
+      lexiconVersion: LEXICON_VERSION,
+      profile: 'linkedin',
+      scoreSource: 'provider',
+      roastSource: 'mock',
+    });
+    expect(provenance?.providers).toEqual([
+      expect.objectContaining({ id: 'remote', model: 'classifier-2', categories: expect.not.arrayContaining(['spam']) }),
+      { id: 'lexicon', name: 'Local Lexicon', categories: ['spam'] },
+    ]);
+    expect(provenance?.stageTimings.map(timing => timing.stage)).toEqual(
+      ['validate', 'cache', 'rate-limit', 'score', 'aggregate', 'roast', 'apology', 'recommend']
+    );
+  });
+
+  it('aborts provider requests and stops before the next stage once cancelled', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new AbortController();
+    let providerSignal: AbortSignal | undefined;
+    const registry = new ToxicityProviderRegistry();
+    registry.register(new LexiconProvider());
+    registry.register({
+      id: 'remote',
+      name: 'Remote',
+      isAvailable: () => true,
+      analyze: (_text, { signal }) => new Promise((_resolve, reject) => {
+        providerSignal = signal;
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        controller.abort();
+      }),
+    });
+    const pipeline = new AnalysisPipelineImpl(registry, new MemoryResultCache());
+    const aggregate = vi.fn();
+    pipeline.addHook('aggregate', 'before', aggregate);
+
+    await expect(pipeline.analyzeText(TEXT, { provider: 'remote' }, { signal: controller.signal }))
+      .rejects.toThrow('Analysis cancelled');
+    expect(providerSignal?.aborted).toBe(true);
+    expect(aggregate).not.toHaveBeenCalled();
+  });
+
+  it('charges the rate limit only for valid, uncached posts and once per thread', async () => {
+    let remaining = 2;
+    const consumeQuota = vi.fn(async () => ({
+      allowed: remaining-- > 0,
+      info: { limit: 2, remaining: Math.max(remaining, 0), resetTime: 0, retryAfter: 6000 },
+    }));
+    const pipeline = new AnalysisPipelineImpl(undefined, new MemoryResultCache(), consumeQuota);
+
+    await expect(pipeline.analyzeText('too short')).rejects.toThrow();
+    await pipeline.analyzeText(TEXT, { provider: 'lexicon' });
+    await pipeline.analyzeText(TEXT, { provider: 'lexicon' });
+    await pipeline.analyzeThread(['First post of the thread here', 'Second post of the thread here']);
+    expect(consumeQuota).toHaveBeenCalledTimes(2);
+
+    await expect(pipeline.analyzeText('A different post about the weather')).rejects.toThrow('Rate limit exceeded. Please wait 6 seconds.');
+  });
+});
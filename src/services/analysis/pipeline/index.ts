@@ -0,0 +1,13 @@
+export type { AnalysisPipeline } from './AnalysisPipeline';
+export type {
+  AnalysisContext,
+  AnalysisRunOptions,
+  PipelineDeps,
+  PipelineStage,
+  PipelineStageName,
+  QuotaConsumer,
+  StageHook,
+  StageHookPosition
+} from './types';
+export { AnalysisPipelineImpl, analysisPipeline, createAbortError } from './AnalysisPipeline';
+export { PIPELINE_STAGES, MAX_TEXT_LENGTH, ANALYSIS_VERSION, validateText } from './stages';
@@ -0,0 +1,382 @@
+import type { AnalysisCategories, AnalysisSource, EnsembleReport, RiskLevel } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import type { ToxicityProviderOptions, ToxicityProviderRegistry } from '../providers';
+import { DEFAULT_PROVIDER_ID, FALLBACK_PROVIDER_ID } from '../providers';
+import { scoreText, getLexicon, EN_LEXICON, LEXICON_VERSION } from '../lexicon';
+import { calculateCancelScore, getRiskLevel } from '../scoring';
+import { analyzeSentences } from '../sentences';
+import { UNSUPPORTED_LANGUAGE_CONFIDENCE } from '../language';
+import { pickRoastTemplate, pickApologyTemplate } from '../templates';
+import { runEnsemble, mergeProviderScores, measureDisagreement } from '../ensemble';
+import { aggregateThreadScores, mergeThreadCategories, offsetThreadSpans } from '../thread';
+import { createCacheKey } from '../cache';
+import { CircuitBreaker, DEFAULT_RESILIENCE, callWithResilience } from '../resilience';
+import { attributeProviders, mergeProviderProvenance } from '../provenance';
+import type { LlmCommentary } from '../commentary';
+import { buildCommentaryMessages, parseCommentary, COMMENTARY_PROMPT_VERSION } from '../commentary';
+import { moderateOutput, buildStricterInstruction, MAX_GENERATION_ATTEMPTS } from '../selfModeration';
+import { llmClient } from '@/services/llm';
+import { getRateLimitMessage } from '@/services/rateLimit';
+import type { AnalysisContext, PipelineDeps, PipelineStage, PipelineStageName } from './types';
+
+export const MAX_TEXT_LENGTH = 2000;
+// Part of every cache key; bump it when scoring changes so older cached results are ignored
+export const ANALYSIS_VERSION = '2.0.1';
+
+export function validateText(text: string, language = 'en'): { isValid: boolean; errors: string[] } {
+  const errors: string[] = [];
+
+  if (!text || typeof text !== 'string') {
+    errors.push('Text is required');
+  } else {
+    if (text.trim().length < 10) {
+      errors.push('Text must be at least 10 characters long');
+    }
+
+    if (text.length > MAX_TEXT_LENGTH) {
+      errors.push(`Text must be less than ${MAX_TEXT_LENGTH} characters`);
+    }
+
+    // Check for potentially harmful content (English patterns; "die" is an article in German)
+    const harmfulPatterns = language.startsWith('en') ? [
+      /\b(kill|die|suicide|harm)\b/i,
+      /\b(bomb|weapon|violence)\b/i,
+    ] : [];
+
+    for (const pattern of harmfulPatterns) {
+      if (pattern.test(text)) {
+        errors.push('Text contains potentially harmful content');
+        break;
+      }
+    }
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors
+  };
+}
+
+const validate: PipelineStage = context => {
+  context.errors.push(...validateText(context.text, context.language).errors);
+
+  const { profile } = context;
+  if (context.errors.length === 0 && context.text.length > profile.maxLength) {
+    context.errors.push(`Text exceeds the ${profile.name} limit of ${profile.maxLength} characters`);
+  }
+};
+
+const cache: PipelineStage = async (context, { cache }) => {
+  context.cacheKey = await createCacheKey(context.text, context.config, ANALYSIS_VERSION, context.threadPost);
+  if (context.config.bypassCache) return;
+
+  const cached = await cache.get(context.cacheKey);
+  if (cached) {
+    // A hit is a new analysis of the same text, so it gets its own id in history
+    context.result = {
+      ...cached,
+      id: uuidv4(),
+      timestamp: Date.now(),
+      processingTime: Math.round(performance.now() - context.startTime),
+    };
+  }
+};
+
+// After `validate` and `cache`, so invalid posts and cache hits cost nothing
+const rateLimit: PipelineStage = async (context, { consumeQuota }) => {
+  if (context.quota.charged) return;
+
+  const { allowed, info } = await consumeQuota('analysis');
+  if (!allowed) {
+    throw new Error(getRateLimitMessage(info));
+  }
+  context.quota.charged = true;
+};
+
+const score: PipelineStage = async (context, { providers }) => {
+  const { text, language, config, signal } = context;
+  const options: ToxicityProviderOptions = { language, ...(signal && { signal }) };
+  const fallback = providers.get(FALLBACK_PROVIDER_ID)!;
+
+  if (config.ensemble) {
+    const { categories, ensemble, source } = await scoreWithEnsemble(context, { providers });
+    const contributors = ensemble.providers.map(({ providerId }) => providers.get(providerId)!);
+    context.categories = categories;
+    context.ensemble = ensemble;
+    context.source = source;
+    context.providerProvenance = attributeProviders(contributors, fallback);
+  } else {
+    const providerId = config.provider ?? DEFAULT_PROVIDER_ID;
+    const provider = providers.get(providerId);
+
+    if (!provider) {
+      throw new Error(`Unknown toxicity provider: ${providerId}`);
+    }
+
+    if (!provider.isAvailable()) {
+      // Unconfigured provider (e.g. no API key in development)
+      context.categories = await fallback.analyze(text, options);
+      context.source = 'mock';
+      context.providerProvenance = attributeProviders([fallback], fallback);
+    } else {
+      try {
+        context.categories = await provider.analyze(text, options);
+        context.source = 'provider';
+        context.providerProvenance = attributeProviders([provider], fallback);
+      } catch (error) {
+        console.warn(`${provider.name} failed, using ${fallback.name}:`, error);
+        context.categories = await fallback.analyze(text, options);
+        context.source = 'fallback';
+        context.providerProvenance = attributeProviders([fallback], fallback);
+      }
+    }
+  }
+
+  // Phrase locations come from the lexicon whichever provider scored
+  const { matches, lexiconVersion } = scoreText(text, getLexicon(language) ?? EN_LEXICON);
+  context.highlights = matches;
+  context.lexiconVersion = lexiconVersion;
+};
+
+async function scoreWithEnsemble(
+  context: AnalysisContext,
+  { providers }: Pick<PipelineDeps, 'providers'>
+): Promise<{ categories: AnalysisCategories; ensemble: EnsembleReport; source: AnalysisSource }> {
+  const ensembleConfig = context.config.ensemble!;
+  const options: ToxicityProviderOptions = { language: context.language, ...(context.signal && { signal: context.signal }) };
+  const { scores, failed } = await runEnsemble(providers, ensembleConfig.providers, context.text, options);
+  let source: AnalysisSource = 'provider';
+
+  // Scores from the lexicon alone are a local estimate, whether or not it was asked for
+  if (!scores.some(score => score.providerId !== FALLBACK_PROVIDER_ID)) {
+    const remoteIds = ensembleConfig.providers.filter(id => id !== FALLBACK_PROVIDER_ID);
+    source = remoteIds.some(id => providers.get(id)?.isAvailable()) ? 'fallback' : 'mock';
+  }
+
+  if (scores.length === 0) {
+    // Nothing answered; score locally so the analysis still completes
+    const fallback = providers.get(FALLBACK_PROVIDER_ID)!;
+    scores.push({ providerId: fallback.id, name: fallback.name, categories: await fallback.analyze(context.text, options) });
+  }
+
+  return {
+    categories: mergeProviderScores(scores, ensembleConfig.strategy, ensembleConfig.weights),
+    ensemble: {
+      strategy: ensembleConfig.strategy,
+      providers: scores,
+      failed,
+      ...measureDisagreement(scores),
+    },
+    source,
+  };
+}
+
+// Most to least real
+const SOURCE_ORDER: readonly AnalysisSource[] = ['provider', 'fallback', 'mock'];
+
+const aggregate: PipelineStage = context => {
+  const { posts, profile } = context;
+
+  if (posts) {
+    // A thread is scored from its posts rather than its combined text
+    const { score: cancelScore, ...threadAggregate } = aggregateThreadScores(posts.map(post => post.cancelScore));
+    const { highlights, sentences } = offsetThreadSpans(posts);
+
+    context.thread = { posts, aggregate: threadAggregate };
+    context.cancelScore = cancelScore;
+    context.riskLevel = getRiskLevel(cancelScore, profile.thresholds);
+    context.categories = mergeThreadCategories(posts);
+    context.highlights = highlights;
+    context.sentences = sentences;
+    context.confidence = posts.reduce((sum, post) => sum + post.confidence, 0) / posts.length;
+    context.providerProvenance = mergeProviderProvenance(posts.map(post => post.provenance?.providers ?? []));
+    context.lexiconVersion = posts[0]?.provenance?.lexiconVersion ?? LEXICON_VERSION;
+    // A thread is only as real as its least real post
+    context.source = posts
+      .map(post => post.source ?? 'provider')
+      .reduce((least, source) => (SOURCE_ORDER.indexOf(source) > SOURCE_ORDER.indexOf(least) ? source : least));
+    return;
+  }
+
+  const categories = context.categories!;
+  const scoreBreakdown = calculateCancelScore(categories, profile);
+  const { ensemble } = context;
+
+  context.scoreBreakdown = scoreBreakdown;
+  context.cancelScore = scoreBreakdown.score;
+  context.riskLevel = scoreBreakdown.riskLevel;
+  context.sentences = analyzeSentences(context.text, profile, getLexicon(context.language) ?? EN_LEXICON);
+  // Provider agreement is the better signal when there is more than one provider
+  context.confidence = (ensemble && ensemble.providers.length > 1 ? 1 - ensemble.disagreement : calculateConfidence(categories))
+    * (context.languageSupported ? 1 : UNSUPPORTED_LANGUAGE_CONFIDENCE);
+};
+
+// Shared by every commentary request, so a failing LLM stops being called for a while
+const roastBreaker = new CircuitBreaker('LLM roasts');
+
+/**
+ * Asks the LLM for the roast, apology, recommendations and flagged phrases in one call.
+ * `apology` and `recommend` pick their parts from `context.commentary` and fall
+ * back to templates for any part that is missing.
+ */
+const roast: PipelineStage = async (context, { providers }) => {
+  const riskLevel = context.riskLevel!;
+
+  // Thread posts and re-scores skip the LLM call; only the shown result is worth a request
+  if (!llmClient.isAvailable() || context.threadPost || context.config.includeRoast === false) {
+    context.roast = pickRoastTemplate(riskLevel, context.language);
+    context.roastSource = 'mock';
+    return;
+  }
+
+  const { commentary, attempts } = await generateCommentary(context, providers);
+  context.commentary = commentary;
+  context.roastAttempts = attempts;
+  context.roast = commentary.roast ?? pickRoastTemplate(riskLevel, context.language);
+  context.roastSource = commentary.roast ? 'provider' : 'fallback';
+  context.roastPromptVersion = COMMENTARY_PROMPT_VERSION;
+};
+
+/**
+ * The roast and apology are scored like any other text and asked for again, with a
+ * stricter prompt, while either crosses the output thresholds. Each keeps the first
+ * version that passed; one that never passes is left out and gets its template.
+ */
+async function generateCommentary(
+  context: AnalysisContext,
+  providers: ToxicityProviderRegistry
+): Promise<{ commentary: LlmCommentary; attempts: number }> {
+  const commentary: LlmCommentary = {};
+  let violations: (keyof AnalysisCategories)[] = [];
+  let attempts = 0;
+
+  while (attempts < MAX_GENERATION_ATTEMPTS) {
+    attempts++;
+    const messages = buildCommentaryMessages({
+      text: context.text,
+      riskLevel: context.riskLevel!,
+      categories: context.categories!,
+      personality: context.config.roastPersonality || 'sarcastic',
+      language: context.language,
+      stricterInstruction: violations.length > 0 ? buildStricterInstruction(violations) : undefined,
+    });
+
+    let reply: LlmCommentary;
+    try {
+      const content = await callWithResilience(roastBreaker, signal => llmClient.complete({
+        messages,
+        maxTokens: 400,
+        temperature: 0.8,
+        json: true,
+      }, signal), DEFAULT_RESILIENCE, context.signal);
+      reply = parseCommentary(content, context.text);
+    } catch (error) {
+      if (context.signal?.aborted) throw error;
+      console.warn('LLM commentary failed, using templates:', error);
+      break;
+    }
+
+    // Recommendations and phrases are the author's own wording, so any reply's will do
+    if (!commentary.recommendations && reply.recommendations) commentary.recommendations = reply.recommendations;
+    if (!commentary.flaggedPhrases && reply.flaggedPhrases) commentary.flaggedPhrases = reply.flaggedPhrases;
+
+    violations = [];
+    const fields = context.config.includeApology === false ? ['roast'] as const : ['roast', 'apology'] as const;
+    for (const field of fields) {
+      const value = reply[field];
+      if (commentary[field] || !value) continue;
+
+      const verdict = await moderateOutput(value, {
+        language: context.language,
+        providers,
+        providerId: context.config.provider,
+        signal: context.signal,
+      });
+      if (verdict.allowed) {
+        commentary[field] = value;
+      } else {
+        violations.push(...verdict.violations);
+      }
+    }
+
+    if (violations.length === 0) break;
+    violations = Array.from(new Set(violations));
+    console.warn(`Generated commentary failed moderation (${violations.join(', ')}), attempt ${attempts} of ${MAX_GENERATION_ATTEMPTS}`);
+  }
+
+  return { commentary, attempts };
+}
+
+const apology: PipelineStage = context => {
+  if (context.config.includeApology === false) return;
+
+  context.apology = context.commentary?.apology ?? pickApologyTemplate(context.riskLevel!, context.language);
+};
+
+const recommend: PipelineStage = context => {
+  const recommendations = context.commentary?.recommendations
+    ? [...context.commentary.recommendations]
+    : generateRecommendations(context.categories!, context.riskLevel!);
+
+  if (context.thread?.aggregate.trend === 'escalating') {
+    recommendations.unshift('The thread gets heated as it goes on - consider ending it before the later posts');
+  }
+
+  context.recommendations = recommendations;
+  context.flaggedPhrases = context.commentary?.flaggedPhrases
+    ?? Array.from(new Set((context.highlights ?? []).map(highlight => highlight.phrase)));
+};
+
+function generateRecommendations(categories: AnalysisCategories, riskLevel: RiskLevel): string[] {
+  const recommendations: string[] = [];
+
+  if (categories.toxicity > 50) {
+    recommendations.push("Consider using more positive language to convey your message");
+  }
+
+  if (categories.insult > 40) {
+    recommendations.push("Try focusing on ideas rather than personal attacks");
+  }
+
+  if (categories.profanity > 30) {
+    recommendations.push("Consider alternative words that maintain impact without profanity");
+  }
+
+  if (categories.identity_attack > 30) {
+    recommendations.push("Be mindful of language that could target specific groups");
+  }
+
+  if (riskLevel === 'HIGH' || riskLevel === 'EXTREME') {
+    recommendations.push("Consider waiting before posting - sometimes a cooling-off period helps");
+    recommendations.push("Ask a trusted friend to review your post before sharing");
+  }
+
+  if (recommendations.length === 0) {
+    recommendations.push("Your post looks good! Consider adding more context if needed");
+  }
+
+  return recommendations;
+}
+
+function calculateConfidence(categories: AnalysisCategories): number {
+  // Higher confidence for more extreme scores
+  const maxScore = Math.max(...Object.values(categories));
+  const avgScore = Object.values(categories).reduce((a, b) => a + b, 0) / Object.values(categories).length;
+
+  // Confidence increases with score consistency and extremes
+  const consistency = 1 - (Math.abs(maxScore - avgScore) / 100);
+  const extremeness = maxScore / 100;
+
+  return Math.min(0.6 + (consistency * 0.2) + (extremeness * 0.2), 1);
+}
+
+export const PIPELINE_STAGES: Record<PipelineStageName, PipelineStage> = {
+  validate,
+  cache,
+  'rate-limit': rateLimit,
+  score,
+  aggregate,
+  roast,
+  apology,
+  recommend,
+};
@@ -0,0 +1,94 @@
+import type {
+  AnalysisCategories,
+  AnalysisConfig,
+  AnalysisResult,
+  AnalysisSource,
+  EnsembleReport,
+  ProviderProvenance,
+  RateLimitBudget,
+  RateLimitInfo,
+  RiskHighlight,
+  RiskLevel,
+  ScoreBreakdown,
+  ScoringProfile,
+  SentenceAnalysis,
+  StageTiming,
+  ThreadAnalysis
+} from '@/types';
+import type { ToxicityProviderRegistry } from '../providers';
+import type { ResultCache } from '../cache';
+import type { LlmCommentary } from '../commentary';
+
+export type PipelineStageName =
+  | 'validate'
+  | 'cache'
+  | 'rate-limit'
+  | 'score'
+  | 'aggregate'
+  | 'roast'
+  | 'apology'
+  | 'recommend';
+
+/**
+ * State handed from stage to stage. Each stage fills in its part;
+ * hooks may read or adjust anything before or after a stage runs.
+ */
+export interface AnalysisContext {
+  readonly text: string;
+  readonly config: Partial<AnalysisConfig>;
+  readonly profile: ScoringProfile;
+  readonly language: string;
+  readonly languageSupported: boolean;
+  readonly startTime: number;
+  readonly threadPost: boolean;             // One post of a thread; the thread gets the roast that matters
+  readonly quota: { charged: boolean };     // Shared by a thread's posts, so the thread is charged once
+  readonly signal?: AbortSignal | undefined; // Aborts provider and LLM requests; the run stops before the next stage
+  errors: string[];                         // Validation errors; the run stops after `validate` if any are set
+  timings: StageTiming[];                   // Filled in as each stage finishes
+  categories?: AnalysisCategories;
+  highlights?: readonly RiskHighlight[];
+  ensemble?: EnsembleReport;
+  source?: AnalysisSource;
+  providerProvenance?: readonly ProviderProvenance[];
+  lexiconVersion?: string;
+  cancelScore?: number;
+  riskLevel?: RiskLevel;
+  scoreBreakdown?: ScoreBreakdown;
+  sentences?: readonly SentenceAnalysis[];
+  confidence?: number;
+  commentary?: LlmCommentary;              // Set by `roast` when an LLM was asked; `apology` and `recommend` use it too
+  roast?: string;
+  roastSource?: AnalysisSource;
+  roastPromptVersion?: string;
+  roastAttempts?: number;                   // LLM calls it took for the roast and apology to pass moderation
+  apology?: string;
+  recommendations?: string[];
+  flaggedPhrases?: readonly string[];
+  posts?: readonly AnalysisResult[];        // Per-post results when the context is a whole thread
+  thread?: ThreadAnalysis;
+  cacheKey?: string;                        // Set by `cache`; the finished result is stored under it
+  result?: AnalysisResult;                  // Set by `cache` on a hit, which skips the remaining stages
+}
+
+export interface AnalysisRunOptions {
+  signal?: AbortSignal | undefined;
+}
+
+/**
+ * Takes one request from a rate-limit budget. Async so the worker can ask the
+ * main thread, which owns the shared, persisted limiter.
+ */
+export type QuotaConsumer = (budget: RateLimitBudget) => Promise<{ allowed: boolean; info: RateLimitInfo }>;
+
+// Shared services the stages run against
+export interface PipelineDeps {
+  readonly providers: ToxicityProviderRegistry;
+  readonly cache: ResultCache;
+  readonly consumeQuota: QuotaConsumer;
+}
+
+export type PipelineStage = (context: AnalysisContext, deps: PipelineDeps) => void | Promise<void>;
+
+export type StageHook = (context: AnalysisContext) => void | Promise<void>;
+
+export type StageHookPosition = 'before' | 'after';
@@ -0,0 +1,104 @@
+import type { ScoringProfile, ScoringProfileId } from '@/types';
+
+/**
+ * Platform scoring profiles. The same post can be harmless on one platform
+ * and career-ending on another, so each profile sets its own category
+ * weights, risk thresholds and post length limit.
+ */
+export const SCORING_PROFILES: Record<ScoringProfileId, ScoringProfile> = {
+  default: {
+    id: 'default',
+    name: 'General',
+    description: 'Balanced scoring for any platform',
+    weights: {
+      toxicity: 0.25,
+      identity_attack: 0.20,
+      insult: 0.15,
+      profanity: 0.10,
+      threat: 0.15,
+      sexually_explicit: 0.10,
+      flirtation: 0.03,
+      spam: 0.02,
+    },
+    thresholds: { MILD: 20, MODERATE: 40, HIGH: 60, EXTREME: 80 },
+    maxLength: 2000,
+  },
+
+  x: {
+    id: 'x',
+    name: 'X',
+    description: 'Pile-ons start with insults and identity jabs',
+    weights: {
+      toxicity: 0.25,
+      identity_attack: 0.22,
+      insult: 0.18,
+      profanity: 0.08,
+      threat: 0.15,
+      sexually_explicit: 0.08,
+      flirtation: 0.02,
+      spam: 0.02,
+    },
+    thresholds: { MILD: 20, MODERATE: 40, HIGH: 60, EXTREME: 80 },
+    maxLength: 280,
+  },
+
+  linkedin: {
+    id: 'linkedin',
+    name: 'LinkedIn',
+    description: 'Your boss is reading. Profanity and flirting cost extra',
+    weights: {
+      toxicity: 0.25,
+      identity_attack: 0.22,
+      insult: 0.18,
+      profanity: 0.25,
+      threat: 0.15,
+      sexually_explicit: 0.20,
+      flirtation: 0.10,
+      spam: 0.05,
+    },
+    thresholds: { MILD: 10, MODERATE: 25, HIGH: 45, EXTREME: 65 },
+    maxLength: 3000,
+  },
+
+  tiktok: {
+    id: 'tiktok',
+    name: 'TikTok',
+    description: 'Strict on explicit content and spammy captions',
+    weights: {
+      toxicity: 0.22,
+      identity_attack: 0.20,
+      insult: 0.12,
+      profanity: 0.08,
+      threat: 0.15,
+      sexually_explicit: 0.15,
+      flirtation: 0.03,
+      spam: 0.05,
+    },
+    thresholds: { MILD: 20, MODERATE: 40, HIGH: 60, EXTREME: 80 },
+    maxLength: 2200,
+  },
+
+  reddit: {
+    id: 'reddit',
+    name: 'Reddit',
+    description: 'Swearing is fine, self-promotion is not',
+    weights: {
+      toxicity: 0.25,
+      identity_attack: 0.22,
+      insult: 0.12,
+      profanity: 0.03,
+      threat: 0.18,
+      sexually_explicit: 0.08,
+      flirtation: 0.02,
+      spam: 0.10,
+    },
+    thresholds: { MILD: 25, MODERATE: 45, HIGH: 65, EXTREME: 85 },
+    maxLength: 40000,
+  },
+};
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PROFILES.default;
+
+export function getScoringProfile(id?: ScoringProfileId): ScoringProfile {
+  return (id && SCORING_PROFILES[id]) || DEFAULT_SCORING_PROFILE;
+}
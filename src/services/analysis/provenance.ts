@@ -0,0 +1,59 @@
+import type { AnalysisCategories, ProviderProvenance } from '@/types';
+import type { ToxicityProvider } from './providers';
+import { CATEGORY_KEYS } from './providers';
+
+type CategoryKey = keyof AnalysisCategories;
+
+/**
+ * Which provider scored which categories. Categories a provider leaves to the
+ * lexicon are credited to `local` instead.
+ */
+export function attributeProviders(
+  providers: readonly ToxicityProvider[],
+  local: ToxicityProvider
+): ProviderProvenance[] {
+  const credited = new Map<string, { provider: ToxicityProvider; categories: Set<CategoryKey> }>();
+
+  const credit = (provider: ToxicityProvider, categories: readonly CategoryKey[]) => {
+    const entry = credited.get(provider.id) ?? { provider, categories: new Set<CategoryKey>() };
+    categories.forEach(category => entry.categories.add(category));
+    credited.set(provider.id, entry);
+  };
+
+  for (const provider of providers) {
+    const localCategories = provider.localCategories ?? [];
+    credit(provider, CATEGORY_KEYS.filter(category => !localCategories.includes(category)));
+    if (localCategories.length > 0) {
+      credit(local, localCategories);
+    }
+  }
+
+  return Array.from(credited.values(), ({ provider, categories }) => toProvenance(provider, categories));
+}
+
+/**
+ * Combine the attributions of several results, e.g. the posts of a thread
+ */
+export function mergeProviderProvenance(lists: readonly (readonly ProviderProvenance[])[]): ProviderProvenance[] {
+  const merged = new Map<string, { entry: ProviderProvenance; categories: Set<CategoryKey> }>();
+
+  for (const entry of lists.flat()) {
+    const existing = merged.get(entry.id) ?? { entry, categories: new Set<CategoryKey>() };
+    entry.categories.forEach(category => existing.categories.add(category));
+    merged.set(entry.id, existing);
+  }
+
+  return Array.from(merged.values(), ({ entry, categories }) => ({
+    ...entry,
+    categories: CATEGORY_KEYS.filter(category => categories.has(category)),
+  }));
+}
+
+function toProvenance(provider: ToxicityProvider, categories: Set<CategoryKey>): ProviderProvenance {
+  return {
+    id: provider.id,
+    name: provider.name,
+    ...(provider.model && { model: provider.model }),
+    categories: CATEGORY_KEYS.filter(category => categories.has(category)),
+  };
+}
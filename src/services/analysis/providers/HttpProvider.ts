@@ -0,0 +1,62 @@
+import type { AnalysisCategories } from '@/types';
+import type { ToxicityProvider, ToxicityProviderOptions } from './ToxicityProvider';
+import { normalizeCategories } from './ToxicityProvider';
+import { HttpStatusError } from '../resilience';
+
+export interface HttpProviderOptions {
+  id?: string;
+  name?: string;
+  endpoint?: string | undefined;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Generic provider for self-hosted classifiers.
+ * POSTs `{ text, language }` and expects `{ categories: Partial<AnalysisCategories> }` on a 0-100 scale.
+ */
+export class HttpProvider implements ToxicityProvider {
+  readonly id: string;
+  readonly name: string;
+
+  private endpoint: string | undefined;
+  private headers: Record<string, string>;
+
+  constructor(options: HttpProviderOptions = {}) {
+    this.id = options.id ?? 'http';
+    this.name = options.name ?? 'Custom HTTP';
+    this.endpoint = options.endpoint ?? import.meta.env.VITE_TOXICITY_HTTP_URL;
+    this.headers = options.headers ?? {};
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.endpoint);
+  }
+
+  async analyze(text: string, options: ToxicityProviderOptions): Promise<AnalysisCategories> {
+    if (!this.endpoint) {
+      throw new Error(`${this.name} provider has no endpoint configured`);
+    }
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...this.headers,
+      },
+      body: JSON.stringify({ text, language: options.language }),
+      signal: options.signal ?? null,
+    });
+
+    if (!response.ok) {
+      throw new HttpStatusError(`${this.name} provider error: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+
+    if (!data || typeof data.categories !== 'object') {
+      throw new Error(`${this.name} provider returned no categories`);
+    }
+
+    return normalizeCategories(data.categories);
+  }
+}
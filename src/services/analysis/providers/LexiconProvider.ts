@@ -0,0 +1,21 @@
+import type { AnalysisCategories } from '@/types';
+import type { ToxicityProvider, ToxicityProviderOptions } from './ToxicityProvider';
+import { scoreText, getLexicon, EN_LEXICON } from '../lexicon';
+
+/**
+ * Local, offline provider backed by the deterministic lexicon scorer.
+ * Always available and used as the fallback when a remote provider is unconfigured or fails.
+ */
+export class LexiconProvider implements ToxicityProvider {
+  readonly id = 'lexicon';
+  readonly name = 'Local Lexicon';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async analyze(text: string, options?: ToxicityProviderOptions): Promise<AnalysisCategories> {
+    const lexicon = (options && getLexicon(options.language)) ?? EN_LEXICON;
+    return scoreText(text, lexicon).categories;
+  }
+}
@@ -0,0 +1,68 @@
+import type { AnalysisCategories } from '@/types';
+import type { ToxicityProvider, ToxicityProviderOptions } from './ToxicityProvider';
+import { normalizeCategories, CATEGORY_KEYS } from './ToxicityProvider';
+import { wrapUntrusted, UNTRUSTED_CONTENT_RULE } from '@/utils/promptSafety';
+import type { LlmClient } from '@/services/llm';
+import { llmClient } from '@/services/llm';
+
+// Room for a JSON object with every category
+const CLASSIFIER_MAX_TOKENS = 200;
+
+export interface LlmClassifierProviderOptions {
+  client?: LlmClient | undefined;
+}
+
+/**
+ * Chat-completion model prompted to act as a classifier.
+ * Calls go through `llmClient`, so they use the same OpenAI-compatible endpoint,
+ * model, headers and API proxy as roasts.
+ */
+export class LlmClassifierProvider implements ToxicityProvider {
+  readonly id = 'llm';
+  readonly name = 'LLM Classifier';
+
+  private client: LlmClient;
+
+  constructor(options: LlmClassifierProviderOptions = {}) {
+    this.client = options.client ?? llmClient;
+  }
+
+  get model(): string {
+    return this.client.resolve().model;
+  }
+
+  isAvailable(): boolean {
+    return this.client.isAvailable();
+  }
+
+  async analyze(text: string, options: ToxicityProviderOptions): Promise<AnalysisCategories> {
+    const content = await this.client.complete({
+      messages: [
+        {
+          role: 'system',
+          content: `You are a content moderation classifier. Score the user's post from 0 to 100 for each of: ${CATEGORY_KEYS.join(', ')}. The post is in language "${options.language}". Reply with a JSON object mapping each category to its score and nothing else.\n${UNTRUSTED_CONTENT_RULE}`,
+        },
+        {
+          role: 'user',
+          content: wrapUntrusted(text),
+        },
+      ],
+      maxTokens: CLASSIFIER_MAX_TOKENS,
+      temperature: 0,
+      json: true,
+    }, options.signal);
+
+    let scores: unknown;
+    try {
+      scores = JSON.parse(content);
+    } catch {
+      throw new Error('LLM classifier returned invalid JSON');
+    }
+
+    if (!scores || typeof scores !== 'object') {
+      throw new Error('LLM classifier returned no categories');
+    }
+
+    return normalizeCategories(scores as Partial<Record<keyof AnalysisCategories, number>>);
+  }
+}
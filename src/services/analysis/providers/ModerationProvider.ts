@@ -0,0 +1,86 @@
+import type { AnalysisCategories } from '@/types';
+import type { ToxicityProvider, ToxicityProviderOptions } from './ToxicityProvider';
+import { normalizeCategories } from './ToxicityProvider';
+import { scoreText, getLexicon, EN_LEXICON } from '../lexicon';
+import { HttpStatusError } from '../resilience';
+import { getApiProxyUrl, postToProxy } from '@/services/apiProxy';
+
+const DEFAULT_ENDPOINT = 'https://api.openai.com/v1/moderations';
+
+export interface ModerationProviderOptions {
+  apiKey?: string | undefined;
+  endpoint?: string | undefined;
+  model?: string | undefined;
+  proxyUrl?: string | undefined;   // API proxy base URL; the proxy holds the key
+}
+
+/**
+ * OpenAI-moderation-style provider. Works with any endpoint that returns
+ * `results[0].category_scores` in the OpenAI moderation format.
+ * The moderation taxonomy has no profanity or flirtation signal, so those stay at 0;
+ * spam comes from the local spam detector.
+ */
+export class ModerationProvider implements ToxicityProvider {
+  readonly id = 'moderation';
+  readonly name = 'OpenAI Moderation';
+  readonly model: string;
+  readonly localCategories = ['spam'] as const;
+
+  private apiKey: string | undefined;
+  private endpoint: string;
+  private proxyUrl: string | undefined;
+
+  constructor(options: ModerationProviderOptions = {}) {
+    this.proxyUrl = options.proxyUrl ?? getApiProxyUrl();
+    // Behind the proxy the key lives on the server; a browser key is never used
+    this.apiKey = this.proxyUrl
+      ? undefined
+      : options.apiKey ?? import.meta.env.VITE_MODERATION_API_KEY ?? import.meta.env.VITE_OPENAI_API_KEY;
+    this.endpoint = options.endpoint ?? import.meta.env.VITE_MODERATION_API_URL ?? DEFAULT_ENDPOINT;
+    this.model = options.model ?? 'omni-moderation-latest';
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.proxyUrl || this.apiKey);
+  }
+
+  async analyze(text: string, options: ToxicityProviderOptions): Promise<AnalysisCategories> {
+    // The proxy picks the model and relays the moderation response unchanged
+    const response = this.proxyUrl
+      ? await postToProxy('moderate', { text }, options.signal, this.proxyUrl)
+      : await this.requestDirect(text, options);
+
+    if (!response.ok) {
+      throw new HttpStatusError(`Moderation API error: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    const scores: Record<string, number> = data.results?.[0]?.category_scores ?? {};
+    const score = (...keys: string[]): number =>
+      Math.max(0, ...keys.map(key => scores[key] ?? 0)) * 100;
+
+    return normalizeCategories({
+      toxicity: score(...Object.keys(scores)),
+      identity_attack: score('hate', 'hate/threatening'),
+      insult: score('harassment'),
+      threat: score('harassment/threatening', 'hate/threatening', 'violence'),
+      sexually_explicit: score('sexual', 'sexual/minors'),
+      spam: scoreText(text, getLexicon(options.language) ?? EN_LEXICON).categories.spam,
+    });
+  }
+
+  private requestDirect(text: string, options: ToxicityProviderOptions): Promise<Response> {
+    return fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        input: text,
+      }),
+      signal: options.signal ?? null,
+    });
+  }
+}
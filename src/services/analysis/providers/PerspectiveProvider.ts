@@ -0,0 +1,88 @@
+import type { AnalysisCategories } from '@/types';
+import type { ToxicityProvider, ToxicityProviderOptions } from './ToxicityProvider';
+import { normalizeCategories } from './ToxicityProvider';
+import { scoreText, getLexicon, EN_LEXICON } from '../lexicon';
+import { HttpStatusError } from '../resilience';
+import { getApiProxyUrl, postToProxy } from '@/services/apiProxy';
+
+const DEFAULT_ENDPOINT = 'https://commentanalyzer.googleapis.com/v1alpha1/comments:analyze';
+
+export interface PerspectiveProviderOptions {
+  apiKey?: string | undefined;
+  endpoint?: string | undefined;
+  proxyUrl?: string | undefined;   // API proxy base URL; the proxy holds the key
+}
+
+/**
+ * Google Perspective API provider
+ */
+export class PerspectiveProvider implements ToxicityProvider {
+  readonly id = 'perspective';
+  readonly name = 'Google Perspective';
+  readonly localCategories = ['spam'] as const;
+
+  private apiKey: string | undefined;
+  private endpoint: string;
+  private proxyUrl: string | undefined;
+
+  constructor(options: PerspectiveProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? import.meta.env.VITE_PERSPECTIVE_API_KEY;
+    this.endpoint = options.endpoint ?? import.meta.env.VITE_PERSPECTIVE_API_URL ?? DEFAULT_ENDPOINT;
+    this.proxyUrl = options.proxyUrl ?? getApiProxyUrl();
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.proxyUrl || this.apiKey);
+  }
+
+  async analyze(text: string, options: ToxicityProviderOptions): Promise<AnalysisCategories> {
+    // The proxy builds the same request server-side and relays Perspective's response
+    const response = this.proxyUrl
+      ? await postToProxy('analyze', { text, language: options.language }, options.signal, this.proxyUrl)
+      : await this.requestDirect(text, options);
+
+    if (!response.ok) {
+      throw new HttpStatusError(`Perspective API error: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    const score = (attribute: string): number =>
+      (data.attributeScores?.[attribute]?.summaryScore?.value || 0) * 100;
+
+    return normalizeCategories({
+      toxicity: score('TOXICITY'),
+      identity_attack: score('IDENTITY_ATTACK'),
+      insult: score('INSULT'),
+      profanity: score('PROFANITY'),
+      threat: score('THREAT'),
+      sexually_explicit: score('SEXUALLY_EXPLICIT'),
+      flirtation: score('FLIRTATION'),
+      // Perspective's SPAM attribute is experimental and English-only; use the local detector
+      spam: scoreText(text, getLexicon(options.language) ?? EN_LEXICON).categories.spam,
+    });
+  }
+
+  private requestDirect(text: string, options: ToxicityProviderOptions): Promise<Response> {
+    return fetch(`${this.endpoint}?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        comment: { text },
+        requestedAttributes: {
+          TOXICITY: {},
+          IDENTITY_ATTACK: {},
+          INSULT: {},
+          PROFANITY: {},
+          THREAT: {},
+          SEXUALLY_EXPLICIT: {},
+          FLIRTATION: {},
+        },
+        languages: [options.language],
+        doNotStore: true,
+      }),
+      signal: options.signal ?? null,
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import type { AnalysisCategories } from '@/types';
+import type { ToxicityProvider, ToxicityProviderOptions } from './ToxicityProvider';
+import type { ResilienceOptions } from '../resilience';
+import { CircuitBreaker, DEFAULT_RESILIENCE, callWithResilience } from '../resilience';
+
+/**
+ * Wraps a remote provider with a timeout, retries and its own circuit breaker
+ */
+export class ResilientProvider implements ToxicityProvider {
+  readonly id: string;
+  readonly name: string;
+
+  private breaker: CircuitBreaker;
+
+  constructor(
+    private provider: ToxicityProvider,
+    private options: ResilienceOptions = DEFAULT_RESILIENCE
+  ) {
+    this.id = provider.id;
+    this.name = provider.name;
+    this.breaker = new CircuitBreaker(provider.name, options.breaker);
+  }
+
+  get model(): string | undefined {
+    return this.provider.model;
+  }
+
+  get localCategories(): readonly (keyof AnalysisCategories)[] | undefined {
+    return this.provider.localCategories;
+  }
+
+  isAvailable(): boolean {
+    return this.provider.isAvailable();
+  }
+
+  analyze(text: string, options: ToxicityProviderOptions): Promise<AnalysisCategories> {
+    return callWithResilience(
+      this.breaker,
+      signal => this.provider.analyze(text, { ...options, signal }),
+      this.options,
+      options.signal
+    );
+  }
+}
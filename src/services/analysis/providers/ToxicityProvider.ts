@@ -0,0 +1,70 @@
+import type { AnalysisCategories } from '@/types';
+
+export interface ToxicityProviderOptions {
+  language: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * A backend capable of scoring text into AnalysisCategories (0-100 per category)
+ */
+export interface ToxicityProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly model?: string | undefined;  // Model behind the scores, recorded in provenance
+  // Categories filled in by the local lexicon rather than the provider's backend
+  readonly localCategories?: readonly (keyof AnalysisCategories)[] | undefined;
+  isAvailable(): boolean;
+  analyze(text: string, options: ToxicityProviderOptions): Promise<AnalysisCategories>;
+}
+
+export class ToxicityProviderRegistry {
+  private providers = new Map<string, ToxicityProvider>();
+
+  register(provider: ToxicityProvider): void {
+    this.providers.set(provider.id, provider);
+  }
+
+  unregister(id: string): boolean {
+    return this.providers.delete(id);
+  }
+
+  get(id: string): ToxicityProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): ToxicityProvider[] {
+    return Array.from(this.providers.values());
+  }
+}
+
+export const CATEGORY_KEYS: (keyof AnalysisCategories)[] = [
+  'toxicity',
+  'identity_attack',
+  'insult',
+  'profanity',
+  'threat',
+  'sexually_explicit',
+  'flirtation',
+  'spam',
+];
+
+/**
+ * Fill missing categories with 0 and clamp everything to a rounded 0-100 range
+ */
+export function normalizeCategories(partial: Partial<Record<keyof AnalysisCategories, number>>): AnalysisCategories {
+  const normalized = {} as Record<keyof AnalysisCategories, number>;
+
+  for (const key of CATEGORY_KEYS) {
+    const value = partial[key];
+    normalized[key] = typeof value === 'number' && Number.isFinite(value)
+      ? Math.min(Math.max(Math.round(value), 0), 100)
+      : 0;
+  }
+
+  return normalized;
+}
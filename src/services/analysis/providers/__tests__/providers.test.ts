@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ToxicityProviderRegistry,
+  PerspectiveProvider,
+  ModerationProvider,
+  LlmClassifierProvider,
+  HttpProvider,
+  LexiconProvider,
+  normalizeCategories,
+} from '@/services/analysis/providers';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+import { LlmClientImpl, getLlmConfigFromEnv } from '@/services/llm';
+
+const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+});
+
+const fetchMock = vi.fn();
+
+describe('toxicity providers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('normalizes partial category scores', () => {
+    const categories = normalizeCategories({ toxicity: 120.4, insult: -5, threat: 33.6 });
+
+    expect(categories.toxicity).toBe(100);
+    expect(categories.insult).toBe(0);
+    expect(categories.threat).toBe(34);
+    expect(categories.spam).toBe(0);
+  });
+
+  it('maps Perspective attribute scores from a custom endpoint', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      attributeScores: {
+        TOXICITY: { summaryScore: { value: 0.82 } },
+        INSULT: { summaryScore: { value: 0.5 } },
+      },
+    }));
+
+    const provider = new PerspectiveProvider({ apiKey: 'test-key', endpoint: 'http://localhost:9000/analyze' });
+    const categories = await provider.analyze('You are all clowns', { language: 'en' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:9000/analyze?key=test-key');
+    expect(categories.toxicity).toBe(82);
+    expect(categories.insult).toBe(50);
+    expect(categories.identity_attack).toBe(0);
+  });
+
+  it('maps moderation category scores', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({
+      results: [{
+        category_scores: { hate: 0.7, harassment: 0.4, violence: 0.9, sexual: 0.1 },
+      }],
+    }));
+
+    const provider = new ModerationProvider({ apiKey: 'test-key', endpoint: 'http://localhost:9000/moderations' });
+    const categories = await provider.analyze('some text here', { language: 'en' });
+
+    expect(categories.identity_attack).toBe(70);
+    expect(categories.insult).toBe(40);
+    expect(categories.threat).toBe(90);
+    expect(categories.toxicity).toBe(90);
+    expect(categories.profanity).toBe(0);
+  });
+
+  it('sends moderation and classifier requests through the API proxy without a browser key', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      results: [{ category_scores: { harassment: 0.4 } }],
+      choices: [{ message: { content: '{"insult": 40}' } }],
+    }));
+
+    const moderation = new ModerationProvider({ apiKey: 'browser-key', proxyUrl: '/api' });
+    const classifier = new LlmClassifierProvider({ client: new LlmClientImpl(getLlmConfigFromEnv(), '/api') });
+    await moderation.analyze('some text here', { language: 'en' });
+    await classifier.analyze('some text here', { language: 'en' });
+
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual(['/api/moderate', '/api/roast']);
+    expect(JSON.stringify(fetchMock.mock.calls)).not.toContain('browser-key');
+  });
+
+  it('classifies through the configured LLM endpoint and model', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ choices: [{ message: { content: '{"insult": 40, "threat": 5}' } }] }));
+    const client = new LlmClientImpl({ ...getLlmConfigFromEnv(), baseUrl: 'http://localhost:11434/v1', model: 'local-model', apiKey: undefined }, undefined);
+    const classifier = new LlmClassifierProvider({ client });
+
+    const categories = await classifier.analyze('some text here', { language: 'en' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ model: 'local-model', temperature: 0, response_format: { type: 'json_object' } });
+    expect(classifier.model).toBe('local-model');
+    expect(categories.insult).toBe(40);
+  });
+
+  it('posts text and language to a custom HTTP provider', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ categories: { profanity: 64 } }));
+
+    const provider = new HttpProvider({ endpoint: 'http://localhost:9000/score', headers: { 'X-Team': 'social' } });
+    const categories = await provider.analyze('what the heck', { language: 'es' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:9000/score');
+    expect(JSON.parse(init.body)).toEqual({ text: 'what the heck', language: 'es' });
+    expect(init.headers['X-Team']).toBe('social');
+    expect(categories.profanity).toBe(64);
+  });
+
+  it('rejects malformed HTTP provider responses', async () => {
+    fetchMock.mockResolvedValueOnce(jsonResponse({ scores: [] }));
+
+    const provider = new HttpProvider({ endpoint: 'http://localhost:9000/score' });
+
+    await expect(provider.analyze('some text here', { language: 'en' })).rejects.toThrow('returned no categories');
+  });
+
+  it('selects the configured provider and falls back to the lexicon on failure', async () => {
+    const registry = new ToxicityProviderRegistry();
+    const failing = new HttpProvider({ id: 'flaky', endpoint: 'http://localhost:9000/score' });
+    registry.register(failing);
+    registry.register(new LexiconProvider());
+    fetchMock.mockResolvedValueOnce(jsonResponse({}, 503));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const pipeline = new AnalysisPipelineImpl(registry);
+    const result = await pipeline.analyzeText('This is a perfectly normal post', { provider: 'flaky' });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.categories).toBeDefined();
+  });
+
+  it('throws for unknown providers', async () => {
+    const pipeline = new AnalysisPipelineImpl(new ToxicityProviderRegistry());
+
+    await expect(pipeline.analyzeText('This is a perfectly normal post', { provider: 'missing' }))
+      .rejects.toThrow('Unknown toxicity provider: missing');
+  });
+});
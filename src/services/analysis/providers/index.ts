@@ -0,0 +1,29 @@
+import { ToxicityProviderRegistry } from './ToxicityProvider';
+import { PerspectiveProvider } from './PerspectiveProvider';
+import { ModerationProvider } from './ModerationProvider';
+import { LexiconProvider } from './LexiconProvider';
+import { HttpProvider } from './HttpProvider';
+import { LlmClassifierProvider } from './LlmClassifierProvider';
+import { ResilientProvider } from './ResilientProvider';
+
+export type { ToxicityProvider, ToxicityProviderOptions } from './ToxicityProvider';
+export { ToxicityProviderRegistry, normalizeCategories, CATEGORY_KEYS } from './ToxicityProvider';
+export { PerspectiveProvider } from './PerspectiveProvider';
+export { ModerationProvider } from './ModerationProvider';
+export { LexiconProvider } from './LexiconProvider';
+export { HttpProvider } from './HttpProvider';
+export { LlmClassifierProvider } from './LlmClassifierProvider';
+export { ResilientProvider } from './ResilientProvider';
+
+export const FALLBACK_PROVIDER_ID = 'lexicon';
+export const DEFAULT_PROVIDER_ID = import.meta.env.VITE_TOXICITY_PROVIDER ?? 'perspective';
+
+// Shared registry with the built-in providers; register custom ones at startup
+export const toxicityProviders = new ToxicityProviderRegistry();
+
+// Remote providers get timeouts, retries and a circuit breaker; the lexicon runs locally and can't fail that way
+toxicityProviders.register(new ResilientProvider(new PerspectiveProvider()));
+toxicityProviders.register(new ResilientProvider(new ModerationProvider()));
+toxicityProviders.register(new LexiconProvider());
+toxicityProviders.register(new ResilientProvider(new HttpProvider()));
+toxicityProviders.register(new ResilientProvider(new LlmClassifierProvider()));
@@ -0,0 +1,171 @@
+export interface RetryOptions {
+  readonly retries: number;        // Attempts after the first
+  readonly baseDelayMs: number;
+  readonly maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  readonly failureThreshold: number; // Consecutive failed calls before the circuit opens
+  readonly cooldownMs: number;       // How long it stays open before a trial call
+}
+
+export interface ResilienceOptions {
+  readonly timeoutMs: number;
+  readonly retry: RetryOptions;
+  readonly breaker: CircuitBreakerOptions;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+  timeoutMs: 8000,
+  retry: { retries: 2, baseDelayMs: 300, maxDelayMs: 3000 },
+  breaker: { failureThreshold: 3, cooldownMs: 30000 },
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * A response with a non-2xx status. Services throw it so retries can tell
+ * a busy or failing server from a request that will never succeed.
+ */
+export class HttpStatusError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Worth another attempt: timeouts, rate limits (429), server errors (5xx) and network
+ * failures, which `fetch` reports as a TypeError. Anything else would fail the same way again.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof HttpStatusError) {
+    return error.status === 429 || error.status >= 500;
+  }
+  return error instanceof TimeoutError || error instanceof TypeError;
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay up to the exponential cap,
+ * so clients that failed together don't all retry together
+ */
+export function getBackoffDelay(attempt: number, { baseDelayMs, maxDelayMs }: RetryOptions, random = Math.random): number {
+  return Math.round(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+}
+
+/**
+ * Run `operation` with a signal that aborts after `timeoutMs` or when `signal` aborts
+ */
+export function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  if (signal?.aborted) abort();
+  signal?.addEventListener('abort', abort, { once: true });
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new TimeoutError(timeoutMs));
+    }, timeoutMs);
+  });
+
+  return Promise.race([operation(controller.signal), timeout]).finally(() => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+  });
+}
+
+/**
+ * Retry `operation` with backoff while it fails with a retryable error
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= options.retries || signal?.aborted || !isRetryableError(error)) throw error;
+      await sleep(getBackoffDelay(attempt, options));
+    }
+  }
+}
+
+/**
+ * Stops calling a service after repeated failures. Once `cooldownMs` has passed
+ * one trial call is let through: success closes the circuit, failure reopens it.
+ * Other calls made while the trial is in flight fail fast, as if the circuit were open.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(
+    private name: string,
+    private options: CircuitBreakerOptions = DEFAULT_RESILIENCE.breaker
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return Date.now() - this.openedAt >= this.options.cooldownMs ? 'half-open' : 'open';
+  }
+
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    const state = this.state;
+    if (state === 'open' || (state === 'half-open' && this.trialInFlight)) {
+      throw new Error(`${this.name} is paused after repeated failures`);
+    }
+    if (state === 'half-open') {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.failures = 0;
+      this.openedAt = null;
+      return result;
+    } catch (error) {
+      this.failures++;
+      if (state === 'half-open' || this.failures >= this.options.failureThreshold) {
+        this.openedAt = Date.now();
+      }
+      throw error;
+    } finally {
+      if (state === 'half-open') {
+        this.trialInFlight = false;
+      }
+    }
+  }
+}
+
+/**
+ * Timeout per attempt, retries with backoff, all behind a circuit breaker.
+ * The breaker counts a call as failed only once its retries are used up.
+ */
+export function callWithResilience<T>(
+  breaker: CircuitBreaker,
+  operation: (signal: AbortSignal) => Promise<T>,
+  options: ResilienceOptions = DEFAULT_RESILIENCE,
+  signal?: AbortSignal
+): Promise<T> {
+  return breaker.execute(() =>
+    withRetry(() => withTimeout(operation, options.timeoutMs, signal), options.retry, signal)
+  );
+}
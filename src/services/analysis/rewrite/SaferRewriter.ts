@@ -0,0 +1,144 @@
+import type {
+  AnalysisConfig,
+  AnalysisResult,
+  RewriteAttempt,
+  RewriteResult,
+  RiskLevel,
+  ScoringProfile
+} from '@/types';
+import type { AnalysisPipeline } from '../pipeline';
+import { analysisWorkerClient } from '../worker';
+import { getScoringProfile } from '../profiles';
+import { isAtOrBelowRisk } from '../scoring';
+import { llmClient } from '@/services/llm';
+import { wrapUntrusted, escapeUntrusted, unescapeUntrusted, UNTRUSTED_CONTENT_RULE } from '@/utils/promptSafety';
+import { softenText } from './softener';
+
+export interface RewriteOptions {
+  targetRisk: RiskLevel;
+  maxAttempts?: number;
+  config?: Partial<AnalysisConfig>;
+}
+
+export interface SaferRewriter {
+  rewrite(original: AnalysisResult, options: RewriteOptions): Promise<RewriteResult>;
+}
+
+export const DEFAULT_MAX_REWRITE_ATTEMPTS = 3;
+
+// Re-scores go through the worker client, which runs them off the main thread and against the rate limit
+type Rescorer = Pick<AnalysisPipeline, 'analyzeText'>;
+
+interface GeneratedRewrite {
+  text: string;
+  source: RewriteAttempt['source'];
+}
+
+export class SaferRewriterImpl implements SaferRewriter {
+  constructor(private pipeline: Rescorer = analysisWorkerClient) {}
+  
+  /**
+   * Rewrite the post and re-score it until it lands at or below the target risk level
+   * or the attempts run out. The lowest-scoring attempt is returned as the rewrite.
+   */
+  async rewrite(original: AnalysisResult, options: RewriteOptions): Promise<RewriteResult> {
+    const { targetRisk, maxAttempts = DEFAULT_MAX_REWRITE_ATTEMPTS } = options;
+    const profile = getScoringProfile(options.config?.profile ?? original.profile);
+    // Re-scores only need the scores; the roast and commentary would be an LLM call per attempt
+    const config: Partial<AnalysisConfig> = { ...options.config, profile: profile.id, includeRoast: false };
+    
+    const attempts: RewriteAttempt[] = [];
+    let current = original;
+    let best = original;
+    
+    for (let attempt = 1; attempt <= maxAttempts && !isAtOrBelowRisk(current.riskLevel, targetRisk); attempt++) {
+      const { text, source } = await this.generateRewrite(current, attempt, targetRisk, profile);
+      
+      // Nothing left to soften, or too little left to analyze
+      if (text === current.text || text.trim().length < 10) break;
+      
+      try {
+        current = await this.pipeline.analyzeText(text, config);
+      } catch (error) {
+        if (attempts.length === 0) throw error;
+        console.warn('Rewrite attempt rejected, keeping earlier attempts:', error);
+        break;
+      }
+      
+      attempts.push({
+        attempt,
+        text,
+        cancelScore: current.cancelScore,
+        riskLevel: current.riskLevel,
+        source,
+      });
+      
+      if (current.cancelScore < best.cancelScore) {
+        best = current;
+      }
+    }
+    
+    return {
+      original,
+      rewrite: best,
+      attempts,
+      targetRisk,
+      reachedTarget: isAtOrBelowRisk(best.riskLevel, targetRisk),
+    };
+  }
+  
+  private async generateRewrite(
+    current: AnalysisResult,
+    attempt: number,
+    targetRisk: RiskLevel,
+    profile: ScoringProfile
+  ): Promise<GeneratedRewrite> {
+    if (llmClient.isAvailable()) {
+      try {
+        return { text: await this.callLlm(current, targetRisk, profile), source: 'llm' };
+      } catch (error) {
+        console.warn('LLM rewrite failed, using mock rewrite:', error);
+      }
+    }
+    
+    return { text: softenText(current.text, attempt, targetRisk, profile), source: 'mock' };
+  }
+  
+  private async callLlm(
+    current: AnalysisResult,
+    targetRisk: RiskLevel,
+    profile: ScoringProfile
+  ): Promise<string> {
+    const content = await llmClient.complete({
+      messages: [
+        {
+          role: 'system',
+          content: `You rewrite social media posts so they keep the author's point and voice but are far less likely to get them cancelled. Reply with the rewritten post only.\n${UNTRUSTED_CONTENT_RULE}`
+        },
+        {
+          role: 'user',
+          content: this.buildRewritePrompt(current, targetRisk, profile)
+        }
+      ],
+      maxTokens: 400,
+      temperature: 0.4,
+    }, AbortSignal.timeout(15000));
+    
+    // Models like to wrap the post in quotes, or in the tags it was given in
+    const unwrapped = content.replace(/^<post>\s*([\s\S]*?)\s*<\/post>$/, '$1').replace(/^"([\s\S]*)"$/, '$1');
+    return unescapeUntrusted(unwrapped).slice(0, profile.maxLength);
+  }
+  
+  private buildRewritePrompt(current: AnalysisResult, targetRisk: RiskLevel, profile: ScoringProfile): string {
+    const flagged = (current.highlights ?? []).map(highlight => `"${escapeUntrusted(highlight.phrase)}"`);
+    const flaggedLine = flagged.length > 0 ? `Flagged phrases: ${Array.from(new Set(flagged)).join(', ')}.\n` : '';
+    
+    return `This ${profile.name} post scores ${current.cancelScore}/100 (${current.riskLevel}). ` +
+      `Rewrite it so it would score ${targetRisk} or lower, within ${profile.maxLength} characters.\n` +
+      flaggedLine +
+      wrapUntrusted(current.text);
+  }
+}
+
+// Export singleton instance
+export const saferRewriter = new SaferRewriterImpl();
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+import { SaferRewriterImpl } from '@/services/analysis/rewrite';
+import { diffWords } from '@/utils/diff';
+
+vi.stubEnv('VITE_OPENAI_API_KEY', '');
+
+describe('SaferRewriter', () => {
+  it('rewrites until the score is at or below the target risk', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const rewriter = new SaferRewriterImpl(pipeline);
+    const original = await pipeline.analyzeText(
+      'You people are stupid idiots and this is the worst garbage take. WTF is wrong with you losers?!!'
+    );
+
+    expect(original.riskLevel).not.toBe('SAFE');
+
+    const result = await rewriter.rewrite(original, { targetRisk: 'MILD' });
+
+    expect(result.reachedTarget).toBe(true);
+    expect(['SAFE', 'MILD']).toContain(result.rewrite.riskLevel);
+    expect(result.rewrite.cancelScore).toBeLessThan(original.cancelScore);
+    expect(result.attempts.length).toBeGreaterThan(0);
+    expect(result.attempts.every(attempt => attempt.source === 'mock')).toBe(true);
+  });
+
+  it('stops after the retry limit', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const rewriter = new SaferRewriterImpl(pipeline);
+    const original = await pipeline.analyzeText('Those people are vermin and subhuman, go back to your country.');
+
+    const result = await rewriter.rewrite(original, { targetRisk: 'SAFE', maxAttempts: 1 });
+
+    expect(result.attempts.length).toBeLessThanOrEqual(1);
+  });
+
+  it('does not rewrite posts already under the target', async () => {
+    const pipeline = new AnalysisPipelineImpl();
+    const rewriter = new SaferRewriterImpl(pipeline);
+    const original = await pipeline.analyzeText('The weather has been really nice lately, perfect for a walk');
+
+    const result = await rewriter.rewrite(original, { targetRisk: 'MILD' });
+
+    expect(result.attempts).toHaveLength(0);
+    expect(result.rewrite).toBe(original);
+  });
+});
+
+describe('diffWords', () => {
+  it('marks removed and added words and preserves both texts', () => {
+    const segments = diffWords('this take is stupid garbage', 'this take is misguided');
+    const join = (types: string[]) =>
+      segments.filter(segment => types.includes(segment.type)).map(segment => segment.text).join('');
+
+    expect(join(['equal', 'removed'])).toBe('this take is stupid garbage');
+    expect(join(['equal', 'added'])).toBe('this take is misguided');
+    expect(segments.some(segment => segment.type === 'removed' && segment.text.includes('stupid'))).toBe(true);
+  });
+});
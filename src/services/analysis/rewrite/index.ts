@@ -0,0 +1,3 @@
+export type { RewriteOptions, SaferRewriter } from './SaferRewriter';
+export { SaferRewriterImpl, saferRewriter, DEFAULT_MAX_REWRITE_ATTEMPTS } from './SaferRewriter';
+export { softenText } from './softener';
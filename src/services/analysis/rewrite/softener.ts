@@ -0,0 +1,137 @@
+import type { AnalysisCategories, RiskHighlight, RiskLevel, ScoringProfile } from '@/types';
+import { scoreText } from '../lexicon';
+import { analyzeSentences } from '../sentences';
+import { isAtOrBelowRisk } from '../scoring';
+import { DEFAULT_SCORING_PROFILE } from '../profiles';
+
+// Milder wording for common lexicon terms; prefix keys also cover `idiots`, `idiotic`, ...
+const SOFTER_ALTERNATIVES: Readonly<Record<string, string>> = {
+  'hate': 'dislike',
+  'stupid': 'misguided',
+  'idiot': 'person',
+  'dumb': 'questionable',
+  'moron': 'person',
+  'worst': 'weakest',
+  'terrible': 'disappointing',
+  'awful': 'disappointing',
+  'pathetic': 'unconvincing',
+  'disgusting': 'unappealing',
+  'trash': 'weak',
+  'garbage': 'weak',
+  'loser': 'person',
+  'shut up': 'let me finish',
+  'toxic': 'unhealthy',
+  'you people': 'some people',
+  'those people': 'some people',
+  'their kind': 'some people',
+  'people like you': 'some people',
+  'all of them are': 'some of them are',
+  'inferior': 'different',
+  'should be banned': 'should be reconsidered',
+  'clown': 'person',
+  'ugly': 'unusual',
+  'worthless': 'unhelpful',
+  'incompetent': 'inexperienced',
+  'braindead': 'confused',
+  'tech bros': 'tech enthusiasts',
+  'jerk': 'person',
+  'destroy': 'beat',
+  'you will regret': 'you may reconsider',
+  "you'll regret": "you'll reconsider",
+  'sexy': 'stylish',
+  'hot': 'great',
+  'babe': 'friend',
+  'dm me': 'reply here',
+  'date me': 'chat with me',
+  'click here': 'see more',
+  'buy now': 'take a look',
+  'free money': 'a deal',
+};
+
+// Used when a term has no alternative: soften the gentler categories, drop the rest
+const CATEGORY_FALLBACKS: Readonly<Record<keyof AnalysisCategories, string>> = {
+  toxicity: 'frustrating',
+  identity_attack: 'some people',
+  insult: 'not great',
+  profanity: '',
+  threat: '',
+  sexually_explicit: '',
+  flirtation: '',
+  spam: '',
+};
+
+function lookupAlternative(highlight: RiskHighlight): string {
+  const phrase = highlight.phrase.toLowerCase().replace(/\s+/g, ' ');
+  const exact = SOFTER_ALTERNATIVES[phrase];
+  if (exact !== undefined) return exact;
+
+  const prefix = Object.keys(SOFTER_ALTERNATIVES).find(key => phrase.startsWith(key));
+  if (!prefix) return CATEGORY_FALLBACKS[highlight.category];
+
+  const alternative = SOFTER_ALTERNATIVES[prefix] ?? '';
+  if (phrase !== `${prefix}s`) return alternative;
+  return alternative === 'person' ? 'people' : `${alternative}s`;
+}
+
+function findAlternative(highlight: RiskHighlight): string {
+  const alternative = lookupAlternative(highlight);
+  const capitalized = /^\p{Lu}/u.test(highlight.phrase);
+  return capitalized ? alternative.charAt(0).toUpperCase() + alternative.slice(1) : alternative;
+}
+
+function replacePhrases(text: string): string {
+  // Right to left so earlier offsets stay valid; a span flagged in several categories is replaced once
+  const highlights = [...scoreText(text).matches].sort((a, b) => b.start - a.start);
+  let result = text;
+  let boundary = Infinity;
+
+  for (const highlight of highlights) {
+    if (highlight.end > boundary) continue;
+    result = result.slice(0, highlight.start) + findAlternative(highlight) + result.slice(highlight.end);
+    boundary = highlight.start;
+  }
+
+  return result;
+}
+
+function calmTone(text: string): string {
+  // Only shouting is lowered; one or two acronyms are left alone
+  const shouted = (text.match(/\b[A-Z]{3,}\b/g) || []).length > 2;
+
+  return (shouted ? text.replace(/\b[A-Z]{3,}\b/g, word => word.toLowerCase()) : text)
+    .replace(/([!?])\1+/g, '$1')
+    .replace(/[ \t]{2,}/g, ' ')
+    .replace(/ +([,.!?;:])/g, '$1')
+    .trim();
+}
+
+function dropRiskySentences(text: string, targetRisk: RiskLevel, profile: ScoringProfile): string {
+  const sentences = analyzeSentences(text, profile);
+  if (sentences.length < 2) return text;
+
+  const kept = sentences.filter(sentence => isAtOrBelowRisk(sentence.riskLevel, targetRisk));
+  if (kept.length === 0) {
+    // Keep the mildest sentence rather than rewriting the post into nothing
+    const mildest = sentences.reduce((low, sentence) =>
+      sentence.cancelScore < low.cancelScore ? sentence : low
+    );
+    return mildest.text;
+  }
+
+  return kept.map(sentence => sentence.text).join(' ');
+}
+
+/**
+ * Offline rewrite used when no LLM is configured. Each attempt is harsher than the last:
+ * the first swaps flagged phrases for milder wording, later ones also drop sentences
+ * that still score above the target.
+ */
+export function softenText(
+  text: string,
+  attempt: number,
+  targetRisk: RiskLevel,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): string {
+  const trimmed = attempt > 1 ? dropRiskySentences(text, targetRisk, profile) : text;
+  return calmTone(replacePhrases(trimmed));
+}
@@ -0,0 +1,73 @@
+import type { AnalysisCategories, CategoryContribution, RiskLevel, RiskThresholds, ScoreBreakdown, ScoringProfile } from '@/types';
+import { DEFAULT_SCORING_PROFILE } from './profiles';
+
+// Risk levels from least to most severe
+export const RISK_LEVELS: readonly RiskLevel[] = ['SAFE', 'MILD', 'MODERATE', 'HIGH', 'EXTREME'];
+
+// Default profile's values, kept for callers that don't score per platform
+export const CATEGORY_WEIGHTS = DEFAULT_SCORING_PROFILE.weights;
+export const RISK_THRESHOLDS = DEFAULT_SCORING_PROFILE.thresholds;
+
+/**
+ * Weighted cancel score with the per-category contributions that produced it,
+ * and the category that pushed the score over its risk level's threshold.
+ * Weights and thresholds come from the platform profile.
+ */
+export function calculateCancelScore(
+  categories: AnalysisCategories,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreBreakdown {
+  const { weights, thresholds } = profile;
+  const contributions: CategoryContribution[] = Object.entries(categories)
+    .map(([category, value]) => {
+      const weight = weights[category as keyof AnalysisCategories] || 0;
+      return {
+        category: category as keyof AnalysisCategories,
+        value,
+        weight,
+        contribution: value * weight,
+      };
+    })
+    .sort((a, b) => b.contribution - a.contribution);
+
+  const total = contributions.reduce((sum, item) => sum + item.contribution, 0);
+  const score = Math.min(Math.round(total), 100);
+  const riskLevel = getRiskLevel(score, thresholds);
+  const threshold = riskLevel === 'SAFE' ? null : thresholds[riskLevel];
+
+  // Walk the largest contributions first; the one that crosses the threshold tipped the level
+  let tippingCategory: keyof AnalysisCategories | null = null;
+  if (threshold !== null) {
+    let cumulative = 0;
+    for (const item of contributions) {
+      cumulative += item.contribution;
+      if (Math.round(cumulative) >= threshold) {
+        tippingCategory = item.category;
+        break;
+      }
+    }
+  }
+
+  return { contributions, score, riskLevel, threshold, tippingCategory };
+}
+
+export function getRiskLevel(score: number, thresholds: RiskThresholds = RISK_THRESHOLDS): RiskLevel {
+  if (score < thresholds.MILD) return 'SAFE';
+  if (score < thresholds.MODERATE) return 'MILD';
+  if (score < thresholds.HIGH) return 'MODERATE';
+  if (score < thresholds.EXTREME) return 'HIGH';
+  return 'EXTREME';
+}
+
+export function isAtOrBelowRisk(level: RiskLevel, target: RiskLevel): boolean {
+  return RISK_LEVELS.indexOf(level) <= RISK_LEVELS.indexOf(target);
+}
+
+/**
+ * Combine contributions with diminishing returns: each one closes
+ * a share of the remaining distance to 100, so scores never overflow.
+ */
+export function combineWeights(weights: readonly number[]): number {
+  const remaining = weights.reduce((rest, weight) => rest * (1 - Math.min(weight, 100) / 100), 1);
+  return Math.round((1 - remaining) * 100);
+}
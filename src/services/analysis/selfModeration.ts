@@ -0,0 +1,74 @@
+import type { AnalysisCategories } from '@/types';
+import type { ToxicityProviderRegistry } from './providers';
+import { toxicityProviders, DEFAULT_PROVIDER_ID } from './providers';
+import { scoreText, getLexicon, EN_LEXICON } from './lexicon';
+
+/**
+ * Checks for text we generate ourselves (roasts, apologies) before it is shown.
+ * The post being analyzed can be as rude as it likes; what we write back can't.
+ */
+
+// Generated text scoring at or above these is rejected
+export const OUTPUT_THRESHOLDS: Readonly<Partial<Record<keyof AnalysisCategories, number>>> = {
+  identity_attack: 40,
+  threat: 40,
+};
+
+// Generations tried before falling back to a template, the first one included
+export const MAX_GENERATION_ATTEMPTS = 3;
+
+export interface OutputVerdict {
+  allowed: boolean;
+  violations: (keyof AnalysisCategories)[];
+}
+
+export interface ModerateOutputOptions {
+  language: string;
+  providers?: ToxicityProviderRegistry | undefined;
+  providerId?: string | undefined;
+  signal?: AbortSignal | undefined;
+}
+
+const VIOLATION_LABELS: Partial<Record<keyof AnalysisCategories, string>> = {
+  identity_attack: 'attacks on anyone\'s identity or the groups they belong to',
+  threat: 'threats or violent wishes',
+};
+
+/**
+ * Score generated text with the configured provider and the lexicon, keeping the
+ * higher of the two per category so a provider outage or miss can't let a known
+ * slur through.
+ */
+export async function moderateOutput(text: string, options: ModerateOutputOptions): Promise<OutputVerdict> {
+  const { language, providers = toxicityProviders, providerId = DEFAULT_PROVIDER_ID, signal } = options;
+  const categories = { ...scoreText(text, getLexicon(language) ?? EN_LEXICON).categories };
+  const provider = providers.get(providerId);
+
+  if (provider?.isAvailable()) {
+    try {
+      const scored = await provider.analyze(text, { language, ...(signal && { signal }) });
+      for (const category of Object.keys(OUTPUT_THRESHOLDS) as (keyof AnalysisCategories)[]) {
+        categories[category] = Math.max(categories[category], scored[category]);
+      }
+    } catch (error) {
+      console.warn(`${provider.name} failed while moderating generated text, using the lexicon:`, error);
+    }
+  }
+
+  const violations = (Object.entries(OUTPUT_THRESHOLDS) as [keyof AnalysisCategories, number][])
+    .filter(([category, threshold]) => categories[category] >= threshold)
+    .map(([category]) => category);
+
+  return { allowed: violations.length === 0, violations };
+}
+
+/**
+ * Added to the system prompt when a generation is retried after being rejected
+ */
+export function buildStricterInstruction(violations: readonly (keyof AnalysisCategories)[]): string {
+  const reasons = violations
+    .map(category => VIOLATION_LABELS[category] ?? category.replace('_', ' '))
+    .join(' and ');
+
+  return `Your previous reply was rejected for containing ${reasons || 'harmful content'}. Write a new one that pokes fun only at the post's wording and choices, never at who the author or anyone else is, and contains nothing that could read as a threat.`;
+}
@@ -0,0 +1,31 @@
+import type { ScoringProfile, SentenceAnalysis } from '@/types';
+import { splitSentences } from '@/utils/sentences';
+import { scoreText, EN_LEXICON } from './lexicon';
+import type { Lexicon } from './lexicon';
+import { calculateCancelScore } from './scoring';
+import { DEFAULT_SCORING_PROFILE } from './profiles';
+
+/**
+ * Score every sentence on its own so one bad sentence isn't diluted by the rest of the post.
+ * Sentences are always scored with the local lexicon: it's deterministic and costs no API quota.
+ */
+export function analyzeSentences(
+  text: string,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE,
+  lexicon: Lexicon = EN_LEXICON
+): SentenceAnalysis[] {
+  return splitSentences(text).map((sentence, index) => {
+    const { categories } = scoreText(sentence.text, lexicon);
+    const { score: cancelScore, riskLevel } = calculateCancelScore(categories, profile);
+
+    return {
+      index,
+      text: sentence.text,
+      start: sentence.start,
+      end: sentence.end,
+      categories,
+      cancelScore,
+      riskLevel,
+    };
+  });
+}
@@ -0,0 +1,156 @@
+import { combineWeights } from './scoring';
+
+export type SpamSignalId =
+  | 'links'
+  | 'affiliate_links'
+  | 'repeated_tokens'
+  | 'hashtags'
+  | 'mentions'
+  | 'promo_phrasing'
+  | 'all_caps';
+
+export interface SpamSignal {
+  readonly id: SpamSignalId;
+  readonly weight: number; // Points (0-100) the signal adds to the spam score
+  readonly detail: string;
+}
+
+export interface SpamAnalysis {
+  readonly score: number;
+  readonly signals: readonly SpamSignal[];
+}
+
+const URL_PATTERN = /\bhttps?:\/\/[^\s]+|\bwww\.[^\s]+|\b[\w-]+\.(?:com|net|org|io|ly|co|shop|store|link|gg|me)\b(?:\/[^\s]*)?/gi;
+const AFFILIATE_PATTERNS = [
+  /[?&](?:ref|aff|affiliate|aff_id|tag|coupon|promo|utm_source)=/i,
+  /\/(?:ref|aff|affiliate)[/=]/i,
+  /\b(?:amzn\.to|bit\.ly|tinyurl\.com|t\.co|goo\.gl|clickbank|shareasale)\b/i,
+];
+
+// Words every sentence repeats; only content words count towards repetition.
+// Languages without a list fall back to English, which at worst misses some repetition.
+const FUNCTION_WORDS: Readonly<Record<string, ReadonlySet<string>>> = {
+  en: new Set([
+    'the', 'and', 'but', 'for', 'nor', 'not', 'are', 'was', 'were', 'been', 'being', 'has', 'have', 'had',
+    'does', 'did', 'can', 'could', 'will', 'would', 'shall', 'should', 'may', 'might', 'must', 'this', 'that',
+    'these', 'those', 'with', 'from', 'into', 'onto', 'over', 'under', 'about', 'than', 'then', 'there', 'their',
+    'they', 'them', 'you', 'your', 'she', 'her', 'his', 'him', 'its', 'our', 'who', 'whom', 'which', 'what',
+    'when', 'where', 'why', 'how', 'all', 'any', 'some', 'just', 'very', 'also', 'out', 'off', "it's",
+    "i'm", "don't", 'because', 'while', 'after', 'before',
+  ]),
+  es: new Set([
+    'los', 'las', 'del', 'que', 'por', 'con', 'una', 'uno', 'unos', 'unas', 'para', 'pero', 'como', 'más',
+    'mas', 'sus', 'les', 'este', 'esta', 'esto', 'ese', 'esa', 'eso', 'hay', 'fue', 'son', 'está', 'muy',
+  ]),
+  fr: new Set([
+    'les', 'des', 'une', 'que', 'qui', 'pas', 'pour', 'avec', 'dans', 'sur', 'par', 'mais', 'est', 'sont',
+    'vous', 'nous', 'ils', 'elle', 'elles', 'ces', 'cette', 'son', 'ses', 'leur', 'aux', 'très', 'plus',
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'den', 'dem', 'des', 'und', 'ist', 'sind', 'nicht', 'ich', 'sie', 'ein', 'eine',
+    'einen', 'einem', 'einer', 'mit', 'für', 'auf', 'aber', 'sehr', 'bist', 'von', 'zu', 'zum', 'zur', 'wir',
+    'ihr', 'auch', 'noch', 'wie', 'was', 'dass', 'hat', 'haben', 'war', 'wird',
+  ]),
+  hi: new Set([
+    'hai', 'hain', 'nahi', 'nahin', 'kya', 'tum', 'mein', 'aur', 'bhi', 'yeh', 'woh', 'tha', 'thi', 'the',
+    'से', 'में', 'है', 'हैं', 'और', 'का', 'की', 'के', 'को', 'यह', 'वह', 'भी', 'नहीं', 'था', 'थी',
+  ]),
+};
+
+const HASHTAG_PATTERN = /(?:^|\s)#[\p{L}\p{N}_]+/gu;
+const MENTION_PATTERN = /(?:^|\s)@[\p{L}\p{N}_.]+/gu;
+
+function countMatches(text: string, pattern: RegExp): number {
+  return (text.match(pattern) || []).length;
+}
+
+function linkSignals(text: string, wordCount: number): SpamSignal[] {
+  const links = text.match(URL_PATTERN) || [];
+  if (links.length === 0) return [];
+
+  const signals: SpamSignal[] = [];
+  const density = links.length / Math.max(wordCount, 1);
+  const weight = density > 0.2 ? 40 : links.length >= 2 ? 25 : 10;
+  signals.push({ id: 'links', weight, detail: `${links.length} link${links.length === 1 ? '' : 's'} in ${wordCount} words` });
+
+  const affiliate = links.filter(link => AFFILIATE_PATTERNS.some(pattern => pattern.test(link)));
+  if (affiliate.length > 0) {
+    signals.push({ id: 'affiliate_links', weight: 40, detail: `${affiliate.length} affiliate or shortened link${affiliate.length === 1 ? '' : 's'}` });
+  }
+
+  return signals;
+}
+
+function repeatedTokenSignal(words: string[], language: string): SpamSignal | null {
+  const functionWords = FUNCTION_WORDS[language] ?? FUNCTION_WORDS['en']!;
+  const counts = new Map<string, number>();
+  for (const word of words) {
+    if (word.length < 3 || functionWords.has(word)) continue;
+    counts.set(word, (counts.get(word) ?? 0) + 1);
+  }
+
+  let top: [string, number] = ['', 0];
+  counts.forEach((count, word) => {
+    if (count > top[1]) top = [word, count];
+  });
+
+  const [word, count] = top;
+  if (count < 3 || count / words.length < 0.15) return null;
+
+  return { id: 'repeated_tokens', weight: Math.min(15 + count * 5, 45), detail: `"${word}" repeated ${count} times` };
+}
+
+function tagSignal(id: 'hashtags' | 'mentions', count: number, wordCount: number): SpamSignal | null {
+  if (count <= 3 && count / Math.max(wordCount, 1) <= 0.3) return null;
+
+  const weight = count / Math.max(wordCount, 1) > 0.3 ? 40 : Math.min(15 + (count - 3) * 5, 40);
+  return { id, weight, detail: `${count} ${id}` };
+}
+
+function allCapsSignal(text: string): SpamSignal | null {
+  const letters = text.match(/\p{L}/gu) || [];
+  // Scripts without case (e.g. Devanagari) never count as shouting
+  const cased = letters.filter(letter => letter.toLowerCase() !== letter.toUpperCase());
+  if (cased.length < 20) return null;
+
+  const upper = cased.filter(letter => letter === letter.toUpperCase()).length;
+  const ratio = upper / cased.length;
+  if (ratio < 0.6) return null;
+
+  return { id: 'all_caps', weight: 20, detail: `${Math.round(ratio * 100)}% capital letters` };
+}
+
+/**
+ * Heuristic spam and self-promotion detector. Looks at link density, affiliate URLs,
+ * repeated tokens, hashtag and mention stuffing, promotional phrasing and shouting.
+ * Promotional phrases come from the lexicon, so callers pass the weights of their spam matches.
+ */
+export function detectSpam(text: string, promoPhraseWeights: readonly number[] = [], language = 'en'): SpamAnalysis {
+  const words = text.toLowerCase().match(/[\p{L}\p{M}\p{N}']+/gu) || [];
+  const signals: SpamSignal[] = [...linkSignals(text, words.length)];
+
+  const repeated = repeatedTokenSignal(words, language);
+  if (repeated) signals.push(repeated);
+
+  const hashtags = tagSignal('hashtags', countMatches(text, HASHTAG_PATTERN), words.length);
+  if (hashtags) signals.push(hashtags);
+
+  const mentions = tagSignal('mentions', countMatches(text, MENTION_PATTERN), words.length);
+  if (mentions) signals.push(mentions);
+
+  if (promoPhraseWeights.length > 0) {
+    signals.push({
+      id: 'promo_phrasing',
+      weight: combineWeights(promoPhraseWeights),
+      detail: `${promoPhraseWeights.length} promotional phrase${promoPhraseWeights.length === 1 ? '' : 's'}`,
+    });
+  }
+
+  const caps = allCapsSignal(text);
+  if (caps) signals.push(caps);
+
+  return {
+    score: combineWeights(signals.map(signal => signal.weight)),
+    signals,
+  };
+}
@@ -0,0 +1,262 @@
+import type { RiskLevel } from '@/types';
+
+type TemplateSet = Readonly<Record<RiskLevel, readonly string[]>>;
+
+const NO_APOLOGY_NEEDED = {
+  en: "No apology needed! Your post is perfectly fine. Keep being awesome! ✨",
+  es: "¡No hace falta disculparse! Tu publicación está perfecta. ¡Sigue así! ✨",
+  fr: "Pas besoin de t'excuser ! Ton post est parfait. Continue comme ça ! ✨",
+  de: "Keine Entschuldigung nötig! Dein Post ist völlig in Ordnung. Weiter so! ✨",
+  hi: "माफ़ी की कोई ज़रूरत नहीं! आपकी पोस्ट बिल्कुल ठीक है। ऐसे ही बढ़िया बने रहिए! ✨",
+};
+
+// Roast templates by language and risk level
+export const ROAST_TEMPLATES: Readonly<Record<string, TemplateSet>> = {
+  en: {
+    SAFE: [
+      "Playing it safe, I see. Your controversy level is about as spicy as vanilla ice cream. 🍦",
+      "This post is so wholesome, it could be a greeting card. Bless your heart! 💝",
+      "Congratulations on achieving peak 'won't offend anyone' energy! 😇",
+      "Your take is safer than a playground with rubber floors and foam walls. 🛡️",
+      "This has 'I asked my mom to proofread my tweet' energy. Adorable! 👵"
+    ],
+    MILD: [
+      "Ooh, someone's feeling a little spicy today! Still safer than a playground though. 🌶️",
+      "This has 'I want to be edgy but also keep my job' vibes. Respect the balance! ⚖️",
+      "Dipping your toes in controversy like it's a cold pool. Adorable! 🏊‍♀️",
+      "Your rebellious phase called - it wants its training wheels back. 🚲",
+      "This is the social media equivalent of ordering mild salsa. Bold choice! 🌮"
+    ],
+    MODERATE: [
+      "Now we're cooking with gas! Still not quite 'cancel-worthy' but getting warmer. 🔥",
+      "This post has 'main character energy' but in a 'side quest' kind of way. 🎮",
+      "You're walking the line between spicy and problematic. Tightrope skills! 🎪",
+      "Your controversy meter is at 'family dinner argument' level. Impressive! 🍽️",
+      "This has 'I'm feeling dangerous today' energy but make it suburban. 🏘️"
+    ],
+    HIGH: [
+      "Yikes! Someone woke up and chose chaos today. Twitter fingers activated! 📱💥",
+      "This post has 'trending for the wrong reasons' potential. Buckle up! 🎢",
+      "Bold strategy, Cotton. Let's see if it pays off or if you need that apology template. 🎯",
+      "Your publicist just felt a disturbance in the force. Hope they're on speed dial! 📞",
+      "This has 'emergency PR meeting' written all over it. RIP your mentions! ⚰️"
+    ],
+    EXTREME: [
+      "WHOA! This post is spicier than a ghost pepper eating contest! 🌶️🔥",
+      "Someone's really testing the limits of social media today. RIP mentions! ⚰️",
+      "This has 'emergency PR meeting' written all over it. Hope you have good lawyers! ⚖️💼",
+      "Your post just broke the controversy scale. Scientists are baffled! 🔬",
+      "This is so spicy, it needs its own hazmat warning label. Godspeed! ☢️"
+    ],
+  },
+  es: {
+    SAFE: [
+      "Qué prudencia. Tu nivel de polémica es tan picante como un helado de vainilla. 🍦",
+      "Esta publicación es tan sana que podría ser una tarjeta de felicitación. 💝",
+      "Tiene energía de 'le pedí a mi madre que revisara el tuit'. ¡Adorable! 👵"
+    ],
+    MILD: [
+      "¡Uy, alguien amaneció un poquito picante! Aun así, más seguro que un parque infantil. 🌶️",
+      "Vibras de 'quiero ser atrevido pero conservar mi trabajo'. ¡Respeto el equilibrio! ⚖️",
+      "Es el equivalente en redes a pedir la salsa suave. ¡Qué valentía! 🌮"
+    ],
+    MODERATE: [
+      "¡Ahora sí estamos cocinando! Todavía no es para cancelarte, pero se calienta. 🔥",
+      "Caminas por la cuerda floja entre picante y problemático. ¡Qué equilibrio! 🎪",
+      "Tu polémica está a nivel 'discusión en la cena familiar'. ¡Impresionante! 🍽️"
+    ],
+    HIGH: [
+      "¡Ay! Alguien se despertó y eligió el caos hoy. 📱💥",
+      "Esta publicación tiene potencial de 'tendencia por las razones equivocadas'. ¡Abróchate el cinturón! 🎢",
+      "Tu publicista acaba de sentir una perturbación en la fuerza. 📞"
+    ],
+    EXTREME: [
+      "¡GUAU! Esta publicación pica más que un concurso de chiles fantasma. 🌶️🔥",
+      "Esto tiene 'reunión de crisis de relaciones públicas' escrito por todas partes. ⚖️💼",
+      "Tu publicación acaba de romper la escala de la polémica. Los científicos no dan crédito. 🔬"
+    ],
+  },
+  fr: {
+    SAFE: [
+      "Prudent, à ce que je vois. Ton niveau de polémique est aussi épicé qu'une glace vanille. 🍦",
+      "Ce post est si sage qu'il pourrait être une carte de vœux. 💝",
+      "Énergie 'j'ai demandé à ma mère de relire mon tweet'. Adorable ! 👵"
+    ],
+    MILD: [
+      "Oh, quelqu'un se sent un peu épicé aujourd'hui ! Toujours plus sûr qu'un bac à sable. 🌶️",
+      "Ambiance 'je veux être rebelle mais garder mon boulot'. Bel équilibre ! ⚖️",
+      "C'est l'équivalent réseaux sociaux de commander la sauce douce. Audacieux ! 🌮"
+    ],
+    MODERATE: [
+      "Là, ça chauffe ! Pas encore de quoi être annulé, mais on s'en approche. 🔥",
+      "Tu marches sur la corde raide entre épicé et problématique. Joli numéro ! 🎪",
+      "Ton niveau de polémique : dispute au repas de famille. Impressionnant ! 🍽️"
+    ],
+    HIGH: [
+      "Aïe ! Quelqu'un s'est levé ce matin en choisissant le chaos. 📱💥",
+      "Ce post a tout pour être en tendance pour de mauvaises raisons. Accroche-toi ! 🎢",
+      "Ton attaché de presse vient de sentir une perturbation dans la Force. 📞"
+    ],
+    EXTREME: [
+      "OUAH ! Ce post est plus épicé qu'un concours de piments. 🌶️🔥",
+      "Ça sent la réunion de crise avec les communicants. J'espère que tu as de bons avocats ! ⚖️💼",
+      "Ton post vient de faire exploser l'échelle de la polémique. Les scientifiques sont perplexes. 🔬"
+    ],
+  },
+  de: {
+    SAFE: [
+      "Auf Nummer sicher, wie ich sehe. Dein Skandalpotenzial ist so scharf wie Vanilleeis. 🍦",
+      "Dieser Post ist so brav, er könnte eine Glückwunschkarte sein. 💝",
+      "Energie von 'Mama hat meinen Tweet Korrektur gelesen'. Süß! 👵"
+    ],
+    MILD: [
+      "Oh, da ist heute jemand ein bisschen frech! Trotzdem sicherer als ein Spielplatz. 🌶️",
+      "Vibes von 'ich will rebellisch sein, aber meinen Job behalten'. Respekt für die Balance! ⚖️",
+      "Das ist das Social-Media-Gegenstück zur milden Salsa. Mutig! 🌮"
+    ],
+    MODERATE: [
+      "Jetzt wird's heiß! Noch nicht cancel-würdig, aber es wird wärmer. 🔥",
+      "Du balancierst zwischen pikant und problematisch. Starke Seiltanz-Skills! 🎪",
+      "Dein Skandalpegel liegt bei 'Streit beim Familienessen'. Beeindruckend! 🍽️"
+    ],
+    HIGH: [
+      "Autsch! Da hat sich heute jemand fürs Chaos entschieden. 📱💥",
+      "Dieser Post hat das Zeug, aus den falschen Gründen zu trenden. Anschnallen! 🎢",
+      "Deine PR-Abteilung hat gerade eine Erschütterung der Macht gespürt. 📞"
+    ],
+    EXTREME: [
+      "WOW! Dieser Post ist schärfer als ein Chili-Wettessen. 🌶️🔥",
+      "Das schreit nach einer PR-Krisensitzung. Hoffentlich hast du gute Anwälte! ⚖️💼",
+      "Dein Post hat gerade die Skandalskala gesprengt. Die Wissenschaft ist ratlos. 🔬"
+    ],
+  },
+  hi: {
+    SAFE: [
+      "बड़ी सावधानी से खेल रहे हो। आपका विवाद स्तर वनीला आइसक्रीम जितना ही तीखा है। 🍦",
+      "यह पोस्ट इतनी प्यारी है कि ग्रीटिंग कार्ड बन सकती है। 💝",
+      "लगता है ट्वीट करने से पहले मम्मी से प्रूफ़रीड करवाया है। 👵"
+    ],
+    MILD: [
+      "ओहो, आज कोई थोड़ा तीखा महसूस कर रहा है! फिर भी काफ़ी सुरक्षित। 🌶️",
+      "'बागी बनना है पर नौकरी भी बचानी है' वाली वाइब। बढ़िया संतुलन! ⚖️",
+      "यह सोशल मीडिया पर हल्की चटनी ऑर्डर करने जैसा है। क्या हिम्मत है! 🌮"
+    ],
+    MODERATE: [
+      "अब बात गरम हो रही है! अभी कैंसल होने लायक नहीं, पर करीब है। 🔥",
+      "आप तीखे और विवादित के बीच रस्सी पर चल रहे हो। कमाल का संतुलन! 🎪",
+      "आपका विवाद मीटर 'फ़ैमिली डिनर की बहस' वाले लेवल पर है। 🍽️"
+    ],
+    HIGH: [
+      "अरे बाप रे! आज किसी ने सुबह उठते ही हंगामा चुना है। 📱💥",
+      "यह पोस्ट गलत वजहों से ट्रेंड कर सकती है। कमर कस लो! 🎢",
+      "आपके पीआर मैनेजर को अभी-अभी झटका लगा है। 📞"
+    ],
+    EXTREME: [
+      "बाप रे! यह पोस्ट भूत जोलकिया से भी ज़्यादा तीखी है! 🌶️🔥",
+      "इस पर 'इमरजेंसी पीआर मीटिंग' लिखा है। उम्मीद है अच्छे वकील हैं! ⚖️💼",
+      "आपकी पोस्ट ने विवाद का पैमाना ही तोड़ दिया। वैज्ञानिक भी हैरान हैं! 🔬"
+    ],
+  },
+};
+
+// Apology templates by language and risk level
+export const APOLOGY_TEMPLATES: Readonly<Record<string, TemplateSet>> = {
+  en: {
+    SAFE: [NO_APOLOGY_NEEDED.en],
+    MILD: [NO_APOLOGY_NEEDED.en],
+    MODERATE: [
+      "I realize my previous post may have come across differently than intended. I appreciate the feedback and will be more mindful going forward.",
+      "After reflection, I understand how my words could be misinterpreted. Thank you for the perspective - always learning and growing.",
+      "I want to clarify my previous post and acknowledge that my phrasing wasn't ideal. I value respectful dialogue and will do better."
+    ],
+    HIGH: [
+      "I sincerely apologize for my previous post. It was poorly thought out and doesn't reflect my values. I'm committed to learning from this mistake.",
+      "My recent post was inappropriate and hurtful. I take full responsibility and am genuinely sorry to anyone I offended. I'll do better.",
+      "I deeply regret my previous statement. It was wrong, and I understand the harm it caused. I'm committed to educating myself and making amends."
+    ],
+    EXTREME: [
+      "I am profoundly sorry for my recent post. It was completely unacceptable and caused real harm. I take full responsibility for my words and actions.",
+      "My previous statement was inexcusable. I am deeply ashamed and committed to meaningful change. I will be taking time to reflect and learn.",
+      "I offer my sincerest apologies for the pain and hurt my words have caused. There is no excuse for what I said. I am committed to doing the work to be better."
+    ],
+  },
+  es: {
+    SAFE: [NO_APOLOGY_NEEDED.es],
+    MILD: [NO_APOLOGY_NEEDED.es],
+    MODERATE: [
+      "Me doy cuenta de que mi publicación anterior pudo entenderse de otra manera. Agradezco los comentarios y tendré más cuidado.",
+      "Quiero aclarar mi publicación anterior: la forma en que lo dije no fue la ideal. Valoro el diálogo respetuoso y lo haré mejor."
+    ],
+    HIGH: [
+      "Pido sinceras disculpas por mi publicación anterior. Fue desconsiderada y no refleja mis valores. Aprenderé de este error.",
+      "Mi publicación reciente fue inapropiada e hiriente. Asumo toda la responsabilidad y lo siento de verdad. Lo haré mejor."
+    ],
+    EXTREME: [
+      "Lamento profundamente mi publicación reciente. Fue totalmente inaceptable y causó un daño real. Asumo toda la responsabilidad.",
+      "Mis palabras fueron inexcusables. Me avergüenzo profundamente y me comprometo a cambiar de verdad."
+    ],
+  },
+  fr: {
+    SAFE: [NO_APOLOGY_NEEDED.fr],
+    MILD: [NO_APOLOGY_NEEDED.fr],
+    MODERATE: [
+      "Je me rends compte que mon post précédent a pu être mal compris. Merci pour vos retours, je serai plus attentif à l'avenir.",
+      "Je tiens à clarifier mon post précédent : ma formulation n'était pas idéale. Je tiens au dialogue respectueux et ferai mieux."
+    ],
+    HIGH: [
+      "Je présente mes sincères excuses pour mon post précédent. Il était irréfléchi et ne reflète pas mes valeurs. Je vais en tirer des leçons.",
+      "Mon post récent était déplacé et blessant. J'en assume l'entière responsabilité et je suis sincèrement désolé."
+    ],
+    EXTREME: [
+      "Je suis profondément désolé pour mon post récent. Il était totalement inacceptable et a causé un réel tort. J'en assume l'entière responsabilité.",
+      "Mes propos étaient inexcusables. J'en ai profondément honte et je m'engage à changer réellement."
+    ],
+  },
+  de: {
+    SAFE: [NO_APOLOGY_NEEDED.de],
+    MILD: [NO_APOLOGY_NEEDED.de],
+    MODERATE: [
+      "Mir ist bewusst, dass mein letzter Post anders ankommen konnte als beabsichtigt. Danke für das Feedback, ich werde achtsamer sein.",
+      "Ich möchte meinen letzten Post klarstellen: Meine Formulierung war nicht ideal. Respektvoller Austausch ist mir wichtig."
+    ],
+    HIGH: [
+      "Ich entschuldige mich aufrichtig für meinen letzten Post. Er war unüberlegt und entspricht nicht meinen Werten. Ich lerne daraus.",
+      "Mein letzter Post war unangemessen und verletzend. Ich übernehme die volle Verantwortung und es tut mir ehrlich leid."
+    ],
+    EXTREME: [
+      "Es tut mir zutiefst leid. Mein letzter Post war völlig inakzeptabel und hat echten Schaden angerichtet. Ich übernehme die volle Verantwortung.",
+      "Meine Worte waren unentschuldbar. Ich schäme mich sehr und verpflichte mich, mich wirklich zu ändern."
+    ],
+  },
+  hi: {
+    SAFE: [NO_APOLOGY_NEEDED.hi],
+    MILD: [NO_APOLOGY_NEEDED.hi],
+    MODERATE: [
+      "मुझे एहसास है कि मेरी पिछली पोस्ट का मतलब गलत समझा जा सकता था। आपकी प्रतिक्रिया के लिए धन्यवाद, आगे से ध्यान रखूँगा।",
+      "मैं अपनी पिछली पोस्ट स्पष्ट करना चाहता हूँ। मेरे शब्द सही नहीं थे। मैं सम्मानजनक बातचीत को महत्व देता हूँ।"
+    ],
+    HIGH: [
+      "मैं अपनी पिछली पोस्ट के लिए ईमानदारी से माफ़ी माँगता हूँ। वह बिना सोचे-समझे लिखी गई थी और मेरे मूल्यों को नहीं दर्शाती।",
+      "मेरी हाल की पोस्ट अनुचित और दुख पहुँचाने वाली थी। मैं पूरी ज़िम्मेदारी लेता हूँ और सच में माफ़ी चाहता हूँ।"
+    ],
+    EXTREME: [
+      "मैं अपनी हाल की पोस्ट के लिए दिल से माफ़ी माँगता हूँ। वह पूरी तरह अस्वीकार्य थी और उससे वास्तविक नुकसान हुआ।",
+      "मेरे शब्द अक्षम्य थे। मुझे इस पर गहरी शर्म है और मैं सच में बदलने का वादा करता हूँ।"
+    ],
+  },
+};
+
+function pick(templates: Readonly<Record<string, TemplateSet>>, riskLevel: RiskLevel, language: string): string | undefined {
+  const base = language.toLowerCase().split('-')[0] ?? '';
+  const options = (templates[base] ?? templates['en'])?.[riskLevel] ?? [];
+  return options[Math.floor(Math.random() * options.length)];
+}
+
+// Random template for the risk level, in English when the language has none
+export function pickRoastTemplate(riskLevel: RiskLevel, language = 'en'): string {
+  return pick(ROAST_TEMPLATES, riskLevel, language) ?? "Your post is... interesting.";
+}
+
+export function pickApologyTemplate(riskLevel: RiskLevel, language = 'en'): string {
+  return pick(APOLOGY_TEMPLATES, riskLevel, language) ?? "Consider addressing any concerns raised by your post.";
+}
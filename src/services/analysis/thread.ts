@@ -0,0 +1,81 @@
+import type { AnalysisCategories, AnalysisResult, RiskHighlight, SentenceAnalysis, ThreadAggregate } from '@/types';
+import { CATEGORY_KEYS } from './providers';
+
+export const MAX_THREAD_POSTS = 10;
+
+// Separator between posts in a thread's combined text
+export const THREAD_POST_SEPARATOR = '\n\n';
+
+// Share of the thread score taken from the worst post; the rest comes from the mean
+const PEAK_WEIGHT = 0.7;
+// Each point a post rises over the one before it adds this much, up to the cap
+const ESCALATION_RATE = 0.25;
+const MAX_ESCALATION = 20;
+// Change between the first and last post that counts as a trend
+const TREND_THRESHOLD = 10;
+
+/**
+ * Score a thread from its posts' scores. A thread is judged mostly by its worst post,
+ * and a thread that keeps getting worse reads as a pile-on, so rises between
+ * consecutive posts add an escalation bonus.
+ */
+export function aggregateThreadScores(scores: readonly number[]): ThreadAggregate & { score: number } {
+  if (scores.length === 0) {
+    return { postScores: [], peakScore: 0, peakIndex: 0, baseScore: 0, escalation: 0, trend: 'steady', score: 0 };
+  }
+
+  const peakScore = Math.max(...scores);
+  const peakIndex = scores.indexOf(peakScore);
+  const mean = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const baseScore = Math.round(PEAK_WEIGHT * peakScore + (1 - PEAK_WEIGHT) * mean);
+
+  const rises = scores.slice(1).reduce((sum, score, index) => sum + Math.max(0, score - (scores[index] ?? score)), 0);
+  const escalation = Math.min(Math.round(rises * ESCALATION_RATE), MAX_ESCALATION);
+
+  const change = (scores[scores.length - 1] ?? 0) - (scores[0] ?? 0);
+  const trend = change >= TREND_THRESHOLD ? 'escalating' : change <= -TREND_THRESHOLD ? 'de-escalating' : 'steady';
+
+  return {
+    postScores: [...scores],
+    peakScore,
+    peakIndex,
+    baseScore,
+    escalation,
+    trend,
+    score: Math.min(baseScore + escalation, 100),
+  };
+}
+
+// Highest score per category across posts
+export function mergeThreadCategories(posts: readonly AnalysisResult[]): AnalysisCategories {
+  const merged = {} as Record<keyof AnalysisCategories, number>;
+  for (const key of CATEGORY_KEYS) {
+    merged[key] = Math.max(0, ...posts.map(post => post.categories[key]));
+  }
+  return merged;
+}
+
+/**
+ * Shift each post's highlights and sentences into the combined thread text
+ * so they can be shown against it.
+ */
+export function offsetThreadSpans(posts: readonly AnalysisResult[]): {
+  highlights: RiskHighlight[];
+  sentences: SentenceAnalysis[];
+} {
+  const highlights: RiskHighlight[] = [];
+  const sentences: SentenceAnalysis[] = [];
+  let offset = 0;
+
+  for (const post of posts) {
+    for (const highlight of post.highlights ?? []) {
+      highlights.push({ ...highlight, start: highlight.start + offset, end: highlight.end + offset });
+    }
+    for (const sentence of post.sentences ?? []) {
+      sentences.push({ ...sentence, index: sentences.length, start: sentence.start + offset, end: sentence.end + offset });
+    }
+    offset += post.text.length + THREAD_POST_SEPARATOR.length;
+  }
+
+  return { highlights, sentences };
+}
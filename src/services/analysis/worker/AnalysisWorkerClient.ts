@@ -0,0 +1,146 @@
+import type { AnalysisConfig, AnalysisResult } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import type { AnalysisPipeline, AnalysisRunOptions } from '../pipeline';
+import { analysisPipeline, createAbortError } from '../pipeline';
+import type { RateLimiter } from '@/services/rateLimit';
+import { rateLimiter as sharedRateLimiter } from '@/services/rateLimit';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './protocol';
+
+type AnalysisJob =
+  | { type: 'analyze'; text: string; config?: Partial<AnalysisConfig> | undefined }
+  | { type: 'analyzeThread'; posts: string[]; config?: Partial<AnalysisConfig> | undefined };
+
+interface PendingJob {
+  resolve: (result: AnalysisResult) => void;
+  reject: (error: Error) => void;
+  inThread: () => Promise<AnalysisResult>;
+}
+
+function createAnalysisWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+
+  try {
+    return new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('Analysis worker unavailable, analyzing on the main thread:', error);
+    return null;
+  }
+}
+
+// Settle with the work's outcome unless the signal aborts first
+function withSignal<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return work;
+  if (signal.aborted) return Promise.reject(createAbortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    work.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Runs the analysis pipeline in a Web Worker so scoring doesn't block rendering.
+ * Falls back to the in-thread pipeline where Workers are unavailable or the worker fails.
+ */
+export class AnalysisWorkerClient {
+  private worker: Worker | null | undefined;
+  private pending = new Map<string, PendingJob>();
+
+  constructor(
+    private createWorker: () => Worker | null = createAnalysisWorker,
+    private fallback: AnalysisPipeline = analysisPipeline,
+    private rateLimiter: RateLimiter = sharedRateLimiter
+  ) {}
+
+  analyzeText(text: string, config?: Partial<AnalysisConfig>, options: AnalysisRunOptions = {}): Promise<AnalysisResult> {
+    return this.run({ type: 'analyze', text, config }, () => this.fallback.analyzeText(text, config, options), options.signal);
+  }
+
+  analyzeThread(posts: string[], config?: Partial<AnalysisConfig>, options: AnalysisRunOptions = {}): Promise<AnalysisResult> {
+    return this.run({ type: 'analyzeThread', posts, config }, () => this.fallback.analyzeThread(posts, config, options), options.signal);
+  }
+
+  private run(job: AnalysisJob, inThread: () => Promise<AnalysisResult>, signal?: AbortSignal): Promise<AnalysisResult> {
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const worker = this.getWorker();
+    if (!worker) {
+      return withSignal(inThread(), signal);
+    }
+
+    const id = uuidv4();
+
+    return new Promise<AnalysisResult>((resolve, reject) => {
+      const onAbort = () => {
+        if (this.pending.delete(id)) {
+          const cancel: AnalysisWorkerRequest = { type: 'cancel', id };
+          worker.postMessage(cancel);
+        }
+        reject(createAbortError());
+      };
+      const settle = <T>(callback: (value: T) => void) => (value: T) => {
+        signal?.removeEventListener('abort', onAbort);
+        callback(value);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, { resolve: settle(resolve), reject: settle(reject), inThread });
+      const request: AnalysisWorkerRequest = { ...job, id };
+      worker.postMessage(request);
+    });
+  }
+
+  private getWorker(): Worker | null {
+    if (this.worker === undefined) {
+      this.worker = this.createWorker();
+      if (this.worker) {
+        this.worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => this.handleResponse(event.data);
+        this.worker.onerror = (event) => this.handleWorkerFailure(event);
+      }
+    }
+    return this.worker;
+  }
+
+  private handleResponse(response: AnalysisWorkerResponse): void {
+    if (response.type === 'quota') {
+      // The pipeline's rate-limit stage, run in the worker, charging the shared limiter
+      const reply: AnalysisWorkerRequest = {
+        type: 'quota',
+        id: response.id,
+        allowed: this.rateLimiter.tryConsume(response.budget),
+        info: this.rateLimiter.getInfo(response.budget),
+      };
+      this.worker?.postMessage(reply);
+      return;
+    }
+
+    const job = this.pending.get(response.id);
+    if (!job) return; // Cancelled
+
+    this.pending.delete(response.id);
+    if (response.type === 'result') {
+      job.resolve(response.result);
+    } else {
+      job.reject(new Error(response.message));
+    }
+  }
+
+  // A worker that fails to load or crashes is dropped for good; its pending jobs rerun on the main thread
+  private handleWorkerFailure(event: ErrorEvent): void {
+    console.warn('Analysis worker failed, analyzing on the main thread:', event.message);
+    this.worker?.terminate();
+    this.worker = null;
+
+    const jobs = Array.from(this.pending.values());
+    this.pending.clear();
+    for (const job of jobs) {
+      job.inThread().then(job.resolve, job.reject);
+    }
+  }
+}
+
+// Export singleton instance
+export const analysisWorkerClient = new AnalysisWorkerClient();
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AnalysisWorkerClient } from '@/services/analysis/worker';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from '@/services/analysis/worker';
+import { AnalysisPipelineImpl } from '@/services/analysis/pipeline';
+
+const TEXT = 'This is a perfectly normal post about the weather';
+
+// Stands in for the worker script: answers on a later tick with a real pipeline
+class FakeWorker {
+  onmessage: ((event: MessageEvent<AnalysisWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  requests: AnalysisWorkerRequest[] = [];
+  terminate = vi.fn();
+  private pipeline = new AnalysisPipelineImpl();
+
+  postMessage(request: AnalysisWorkerRequest) {
+    this.requests.push(request);
+    if (request.type !== 'analyze') return;
+
+    setTimeout(async () => {
+      const result = await this.pipeline.analyzeText(request.text, request.config);
+      this.onmessage?.({ data: { type: 'result', id: request.id, result } } as MessageEvent<AnalysisWorkerResponse>);
+    }, 10);
+  }
+
+  fail() {
+    this.onerror?.({ message: 'script failed to load' } as ErrorEvent);
+  }
+}
+
+const clientWith = (worker: FakeWorker | null) =>
+  new AnalysisWorkerClient(() => worker as unknown as Worker | null, new AnalysisPipelineImpl());
+
+describe('AnalysisWorkerClient', () => {
+  it('analyzes through the worker', async () => {
+    const worker = new FakeWorker();
+    const result = await clientWith(worker).analyzeText(TEXT);
+
+    expect(result.text).toBe(TEXT);
+    expect(worker.requests[0]?.type).toBe('analyze');
+  });
+
+  it('falls back to the main thread without a worker', async () => {
+    const result = await clientWith(null).analyzeText(TEXT);
+    expect(result.text).toBe(TEXT);
+  });
+
+  it('cancels a pending request', async () => {
+    const worker = new FakeWorker();
+    const controller = new AbortController();
+
+    const pending = clientWith(worker).analyzeText(TEXT, undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(worker.requests.map(request => request.type)).toEqual(['analyze', 'cancel']);
+  });
+
+  it('charges the shared rate limiter for the worker', () => {
+    const worker = new FakeWorker();
+    const rateLimiter = {
+      tryConsume: vi.fn(() => false),
+      getInfo: vi.fn(() => ({ limit: 10, remaining: 0, resetTime: 0, retryAfter: 3000 })),
+    };
+    const client = new AnalysisWorkerClient(() => worker as unknown as Worker, new AnalysisPipelineImpl(), rateLimiter);
+
+    void client.analyzeText(TEXT).catch(() => {});
+    worker.onmessage?.({ data: { type: 'quota', id: 'q1', budget: 'analysis' } } as MessageEvent<AnalysisWorkerResponse>);
+
+    expect(rateLimiter.tryConsume).toHaveBeenCalledWith('analysis');
+    expect(worker.requests[worker.requests.length - 1]).toEqual({
+      type: 'quota',
+      id: 'q1',
+      allowed: false,
+      info: { limit: 10, remaining: 0, resetTime: 0, retryAfter: 3000 },
+    });
+  });
+
+  it('reruns pending requests on the main thread when the worker fails', async () => {
+    const worker = new FakeWorker();
+    worker.postMessage = vi.fn();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const client = clientWith(worker);
+    const pending = client.analyzeText(TEXT);
+    worker.fail();
+
+    expect((await pending).text).toBe(TEXT);
+    expect(worker.terminate).toHaveBeenCalled();
+  });
+});
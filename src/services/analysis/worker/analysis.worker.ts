@@ -0,0 +1,64 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { QuotaConsumer } from '../pipeline';
+import { AnalysisPipelineImpl } from '../pipeline';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './protocol';
+
+// The project compiles against the DOM lib; a dedicated worker scope exposes the same messaging surface as Worker
+const scope = self as unknown as Worker;
+
+type QuotaReply = Awaited<ReturnType<QuotaConsumer>>;
+
+// Workers have no localStorage, so the rate limit is charged by the client on the main thread
+const quotaRequests = new Map<string, (reply: QuotaReply) => void>();
+const consumeQuota: QuotaConsumer = budget => new Promise(resolve => {
+  const id = uuidv4();
+  quotaRequests.set(id, resolve);
+  const request: AnalysisWorkerResponse = { type: 'quota', id, budget };
+  scope.postMessage(request);
+});
+
+const pipeline = new AnalysisPipelineImpl(undefined, undefined, consumeQuota);
+// Aborting a job's controller stops its provider and LLM requests and the stages still to run
+const running = new Map<string, AbortController>();
+// Subset of `running`; both are cleared when the job finishes, so neither grows
+const cancelled = new Set<string>();
+
+const respond = (response: AnalysisWorkerResponse) => {
+  running.delete(response.id);
+  // The client has already given up on cancelled requests
+  if (cancelled.delete(response.id)) return;
+  scope.postMessage(response);
+};
+
+scope.onmessage = async (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'quota') {
+    quotaRequests.get(request.id)?.({ allowed: request.allowed, info: request.info });
+    quotaRequests.delete(request.id);
+    return;
+  }
+
+  if (request.type === 'cancel') {
+    // A cancel that arrives after the result was posted has nothing left to stop
+    const controller = running.get(request.id);
+    if (controller) {
+      cancelled.add(request.id);
+      controller.abort();
+    }
+    return;
+  }
+
+  const controller = new AbortController();
+  running.set(request.id, controller);
+  const options = { signal: controller.signal };
+
+  try {
+    const result = request.type === 'analyzeThread'
+      ? await pipeline.analyzeThread(request.posts, request.config, options)
+      : await pipeline.analyzeText(request.text, request.config, options);
+    respond({ type: 'result', id: request.id, result });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Analysis failed' });
+  }
+};
@@ -0,0 +1,4 @@
+export type { AnalysisWorkerRequest, AnalysisWorkerResponse } from './protocol';
+export type { AnalysisRunOptions } from '../pipeline';
+export { createAbortError } from '../pipeline';
+export { AnalysisWorkerClient, analysisWorkerClient } from './AnalysisWorkerClient';
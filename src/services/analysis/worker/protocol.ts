@@ -0,0 +1,18 @@
+import type { AnalysisConfig, AnalysisResult, RateLimitBudget, RateLimitInfo } from '@/types';
+
+/**
+ * Messages exchanged with the analysis worker. Every request carries an id
+ * that the matching response echoes back. `quota` goes the other way: the
+ * worker asks the client to charge the shared rate limiter, which lives in
+ * main-thread localStorage, and the client answers under the same id.
+ */
+export type AnalysisWorkerRequest =
+  | { type: 'analyze'; id: string; text: string; config?: Partial<AnalysisConfig> | undefined }
+  | { type: 'analyzeThread'; id: string; posts: string[]; config?: Partial<AnalysisConfig> | undefined }
+  | { type: 'cancel'; id: string }
+  | { type: 'quota'; id: string; allowed: boolean; info: RateLimitInfo };
+
+export type AnalysisWorkerResponse =
+  | { type: 'result'; id: string; result: AnalysisResult }
+  | { type: 'error'; id: string; message: string }
+  | { type: 'quota'; id: string; budget: RateLimitBudget };
@@ -0,0 +1,21 @@
+/**
+ * Base URL of the API proxy in `server/` (e.g. `/api`). When it is set, requests
+ * that need API keys go through the proxy and the keys never reach the browser.
+ */
+export function getApiProxyUrl(): string | undefined {
+  return import.meta.env.VITE_API_PROXY_URL || undefined;
+}
+
+export function postToProxy(
+  route: 'analyze' | 'moderate' | 'roast',
+  body: unknown,
+  signal?: AbortSignal,
+  proxyUrl = getApiProxyUrl()
+): Promise<Response> {
+  return fetch(`${proxyUrl}/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: signal ?? null,
+  });
+}
@@ -0,0 +1,180 @@
+import type { RoastMode } from '@/types/roast';
+import { getApiProxyUrl, postToProxy } from '@/services/apiProxy';
+import { HttpStatusError } from '@/services/analysis/resilience';
+import { readSseData } from './sse';
+
+export const DEFAULT_LLM_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_LLM_MODEL = 'gpt-4-turbo-preview';
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// Where chat completions are sent and which model answers them
+export interface LlmEndpointConfig {
+  readonly baseUrl: string;                          // OpenAI-compatible API root; `/chat/completions` is appended
+  readonly model: string;
+  readonly apiKey?: string | undefined;              // Sent as a Bearer token; local servers usually need none
+  readonly headers: Readonly<Record<string, string>>;
+}
+
+export interface LlmClientConfig extends LlmEndpointConfig {
+  readonly modes: Readonly<Partial<Record<RoastMode, Partial<LlmEndpointConfig>>>>; // Per-mode overrides
+}
+
+export interface ChatRequest {
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  presencePenalty?: number | undefined;
+  frequencyPenalty?: number | undefined;
+  mode?: RoastMode | undefined;                      // Picks up that mode's overrides
+  json?: boolean | undefined;                        // Ask for a JSON object reply (`response_format`)
+}
+
+export interface LlmClient {
+  isAvailable(mode?: RoastMode): boolean;
+  resolve(mode?: RoastMode): LlmEndpointConfig;
+  complete(request: ChatRequest, signal?: AbortSignal): Promise<string>;
+  // Like `complete`, but calls `onToken` with each chunk of text as it arrives
+  stream(request: ChatRequest, onToken: (token: string) => void, signal?: AbortSignal): Promise<string>;
+  configure(config: Partial<LlmClientConfig>): void;
+}
+
+function parseJsonEnv<T>(name: string, value: string | undefined, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    console.warn(`Ignoring ${name}: not valid JSON`);
+    return fallback;
+  }
+}
+
+export function getLlmConfigFromEnv(): LlmClientConfig {
+  const env = import.meta.env;
+  return {
+    baseUrl: env.VITE_LLM_BASE_URL || DEFAULT_LLM_BASE_URL,
+    model: env.VITE_LLM_MODEL || DEFAULT_LLM_MODEL,
+    apiKey: env.VITE_LLM_API_KEY || env.VITE_OPENAI_API_KEY || undefined,
+    headers: parseJsonEnv('VITE_LLM_HEADERS', env.VITE_LLM_HEADERS, {}),
+    modes: parseJsonEnv('VITE_LLM_MODE_OVERRIDES', env.VITE_LLM_MODE_OVERRIDES, {}),
+  };
+}
+
+/**
+ * Chat completions against any OpenAI-compatible API: OpenAI itself, a
+ * self-hosted server or a local mock. With `VITE_API_PROXY_URL` set, requests
+ * go through the API proxy instead, which holds the key and the base URL;
+ * only the model is passed along for it to allow or replace.
+ */
+export class LlmClientImpl implements LlmClient {
+  private config: LlmClientConfig;
+
+  constructor(
+    config: LlmClientConfig = getLlmConfigFromEnv(),
+    private proxyUrl: string | undefined = getApiProxyUrl()
+  ) {
+    this.config = config;
+  }
+
+  isAvailable(mode?: RoastMode): boolean {
+    if (this.proxyUrl) return true;
+
+    // Anything other than OpenAI itself is assumed to be a server that needs no key
+    const { apiKey, baseUrl } = this.resolve(mode);
+    return Boolean(apiKey) || baseUrl !== DEFAULT_LLM_BASE_URL;
+  }
+
+  resolve(mode?: RoastMode): LlmEndpointConfig {
+    const { modes, ...defaults } = this.config;
+    const override = mode ? modes[mode] : undefined;
+
+    return {
+      ...defaults,
+      ...override,
+      headers: { ...defaults.headers, ...override?.headers },
+    };
+  }
+
+  async complete(request: ChatRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.send(request, false, signal);
+    return readCompletion(await response.json());
+  }
+
+  async stream(request: ChatRequest, onToken: (token: string) => void, signal?: AbortSignal): Promise<string> {
+    const response = await this.send(request, true, signal);
+
+    if (!response.body || !response.headers.get('content-type')?.includes('text/event-stream')) {
+      // The server ignored `stream`; hand over the whole completion at once
+      const content = readCompletion(await response.json());
+      onToken(content);
+      return content;
+    }
+
+    let content = '';
+    for await (const data of readSseData(response.body)) {
+      if (data === '[DONE]') break;
+
+      const token = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (typeof token === 'string' && token) {
+        content += token;
+        onToken(token);
+      }
+    }
+
+    if (!content.trim()) {
+      throw new Error('No content generated');
+    }
+    return content.trim();
+  }
+
+  configure(config: Partial<LlmClientConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  private async send(request: ChatRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const endpoint = this.resolve(request.mode);
+    const body = {
+      model: endpoint.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      presence_penalty: request.presencePenalty,
+      frequency_penalty: request.frequencyPenalty,
+      ...(request.json ? { response_format: { type: 'json_object' } } : {}),
+      ...(stream ? { stream: true } : {}),
+    };
+
+    const response = this.proxyUrl
+      ? await postToProxy('roast', body, signal, this.proxyUrl)
+      : await fetch(`${endpoint.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          ...endpoint.headers,
+          ...(endpoint.apiKey ? { 'Authorization': `Bearer ${endpoint.apiKey}` } : {}),
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: signal ?? null,
+      });
+
+    if (!response.ok) {
+      throw new HttpStatusError(`LLM API error: ${response.status} ${response.statusText}`.trim(), response.status);
+    }
+    return response;
+  }
+}
+
+function readCompletion(data: { choices?: { message?: { content?: string } }[] }): string {
+  const content = data.choices?.[0]?.message?.content?.trim();
+
+  if (!content) {
+    throw new Error('No content generated');
+  }
+  return content;
+}
+
+// Export singleton instance
+export const llmClient = new LlmClientImpl();
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { LlmClientImpl, DEFAULT_LLM_BASE_URL } from '@/services/llm';
+import type { LlmClientConfig } from '@/services/llm';
+
+const chatResponse = (content: string) => ({
+  ok: true,
+  status: 200,
+  statusText: 'OK',
+  json: async () => ({ choices: [{ message: { content } }] }),
+});
+
+const sseResponse = (events: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // Split mid-event to check chunks are reassembled
+      const raw = events.map(event => `data: ${event}\n\n`).join('');
+      controller.enqueue(encoder.encode(raw.slice(0, 25)));
+      controller.enqueue(encoder.encode(raw.slice(25)));
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const delta = (content: string) => JSON.stringify({ choices: [{ delta: { content } }] });
+
+const fetchMock = vi.fn();
+
+const config: LlmClientConfig = {
+  baseUrl: 'http://localhost:11434/v1/',
+  model: 'llama3',
+  headers: { 'X-Team': 'roasts' },
+  modes: {
+    hr: { model: 'llama3-instruct', headers: { 'X-Mode': 'hr' } },
+    savage: { baseUrl: DEFAULT_LLM_BASE_URL, apiKey: 'sk-test', model: 'gpt-4o' },
+  },
+};
+
+describe('LlmClient', () => {
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  it('sends requests to the configured OpenAI-compatible server', async () => {
+    fetchMock.mockResolvedValueOnce(chatResponse('  nice try  '));
+    const client = new LlmClientImpl(config, undefined);
+
+    const content = await client.complete({
+      messages: [{ role: 'user', content: 'roast me' }],
+      maxTokens: 50,
+      temperature: 0.5,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(content).toBe('nice try');
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers).toEqual({ 'X-Team': 'roasts', 'Content-Type': 'application/json' });
+    expect(JSON.parse(init.body)).toMatchObject({ model: 'llama3', max_tokens: 50, temperature: 0.5 });
+  });
+
+  it('applies per-mode overrides on top of the defaults', () => {
+    const client = new LlmClientImpl(config, undefined);
+
+    expect(client.resolve('hr')).toMatchObject({
+      baseUrl: 'http://localhost:11434/v1/',
+      model: 'llama3-instruct',
+      headers: { 'X-Team': 'roasts', 'X-Mode': 'hr' },
+    });
+    expect(client.resolve('genz').model).toBe('llama3');
+  });
+
+  it('needs a key only for the default OpenAI endpoint', () => {
+    const client = new LlmClientImpl(config, undefined);
+
+    expect(client.isAvailable('genz')).toBe(true);
+    expect(client.isAvailable('savage')).toBe(true);
+
+    client.configure({ baseUrl: DEFAULT_LLM_BASE_URL });
+    expect(client.isAvailable('genz')).toBe(false);
+  });
+
+  it('streams tokens as they arrive and returns the full text', async () => {
+    fetchMock.mockResolvedValueOnce(sseResponse([delta('bestie '), delta('really '), delta('said that'), '[DONE]']));
+    const client = new LlmClientImpl(config, undefined);
+    const tokens: string[] = [];
+
+    const content = await client.stream(
+      { messages: [{ role: 'user', content: 'roast me' }], maxTokens: 50, temperature: 0.9 },
+      token => tokens.push(token)
+    );
+
+    expect(tokens).toEqual(['bestie ', 'really ', 'said that']);
+    expect(content).toBe('bestie really said that');
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+  });
+
+  it('posts to the API proxy when one is configured', async () => {
+    fetchMock.mockResolvedValueOnce(chatResponse('proxied'));
+    const client = new LlmClientImpl(config, '/api');
+
+    await client.complete({ mode: 'hr', messages: [{ role: 'user', content: 'hi' }], maxTokens: 10, temperature: 0 });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('/api/roast');
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(JSON.parse(init.body).model).toBe('llama3-instruct');
+  });
+});
@@ -0,0 +1,2 @@
+export type { ChatMessage, ChatRequest, LlmClient, LlmClientConfig, LlmEndpointConfig } from './LlmClient';
+export { LlmClientImpl, llmClient, getLlmConfigFromEnv, DEFAULT_LLM_BASE_URL, DEFAULT_LLM_MODEL } from './LlmClient';
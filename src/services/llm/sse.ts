@@ -0,0 +1,33 @@
+/**
+ * Yield the `data` payload of each server-sent event in `body`.
+ * Multi-line data is joined with newlines; comments and other fields are skipped.
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : events.pop() ?? '';
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        if (data) yield data;
+      }
+
+      if (done) return;
+    }
+  } finally {
+    // Stops the download when the caller breaks out early, e.g. on `[DONE]`
+    reader.cancel().catch(() => undefined);
+  }
+}
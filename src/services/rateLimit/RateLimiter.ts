@@ -0,0 +1,110 @@
+import type { RateLimitBudget, RateLimitInfo } from '@/types';
+
+export interface TokenBucketConfig {
+  readonly capacity: number;       // Requests allowed in a burst
+  readonly refillMs: number;       // Ms to earn back one request
+}
+
+export interface RateLimiter {
+  tryConsume(budget: RateLimitBudget): boolean;
+  getInfo(budget: RateLimitBudget): RateLimitInfo;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+type BucketStates = Partial<Record<RateLimitBudget, BucketState>>;
+
+const STORAGE_KEY = 'scandalscope-rate-limits';
+
+export const RATE_LIMIT_BUDGETS: Record<RateLimitBudget, TokenBucketConfig> = {
+  analysis: { capacity: 10, refillMs: 6000 }, // 10 per minute
+  roast: { capacity: 10, refillMs: 6000 },    // 10 per minute
+};
+
+export function getRateLimitMessage(info: RateLimitInfo): string {
+  return `Rate limit exceeded. Please wait ${Math.ceil(info.retryAfter / 1000)} seconds.`;
+}
+
+function getDefaultStorage(): Storage | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    // Reading localStorage throws when storage is blocked
+    return null;
+  }
+}
+
+/**
+ * Token buckets persisted in localStorage, so the budgets survive reloads and
+ * are shared between tabs. State is re-read on every call rather than kept
+ * in memory, which keeps tabs from overwriting each other with stale counts.
+ */
+export class RateLimiterImpl implements RateLimiter {
+  private memory: BucketStates = {};
+
+  constructor(
+    private budgets: Record<RateLimitBudget, TokenBucketConfig> = RATE_LIMIT_BUDGETS,
+    private storage: Storage | null = getDefaultStorage()
+  ) {}
+
+  tryConsume(budget: RateLimitBudget): boolean {
+    const states = this.load();
+    const state = this.refill(budget, states[budget]);
+    if (state.tokens < 1) return false;
+
+    this.save({ ...states, [budget]: { ...state, tokens: state.tokens - 1 } });
+    return true;
+  }
+
+  getInfo(budget: RateLimitBudget): RateLimitInfo {
+    const { capacity, refillMs } = this.budgets[budget];
+    const { tokens, updatedAt } = this.refill(budget, this.load()[budget]);
+
+    return {
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetTime: Math.ceil(updatedAt + (capacity - tokens) * refillMs),
+      retryAfter: tokens >= 1 ? 0 : Math.ceil((1 - tokens) * refillMs),
+    };
+  }
+
+  private refill(budget: RateLimitBudget, state: BucketState | undefined): BucketState {
+    const { capacity, refillMs } = this.budgets[budget];
+    const now = Date.now();
+    if (!state) return { tokens: capacity, updatedAt: now };
+
+    const earned = Math.max(0, now - state.updatedAt) / refillMs;
+    return { tokens: Math.min(capacity, state.tokens + earned), updatedAt: now };
+  }
+
+  private load(): BucketStates {
+    if (!this.storage) return this.memory;
+
+    try {
+      const stored = this.storage.getItem(STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as BucketStates) : {};
+    } catch (error) {
+      console.warn('Rate limits unreadable, keeping them in memory:', error);
+      this.storage = null;
+      return this.memory;
+    }
+  }
+
+  private save(states: BucketStates): void {
+    this.memory = states;
+    if (!this.storage) return;
+
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(states));
+    } catch (error) {
+      console.warn('Rate limits could not be saved, keeping them in memory:', error);
+      this.storage = null;
+    }
+  }
+}
+
+// Export singleton instance
+export const rateLimiter = new RateLimiterImpl();
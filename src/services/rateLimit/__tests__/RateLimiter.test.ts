@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiterImpl } from '@/services/rateLimit';
+
+const budgets = {
+  analysis: { capacity: 2, refillMs: 1000 },
+  roast: { capacity: 1, refillMs: 1000 },
+};
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst up to capacity and refills over time', () => {
+    const limiter = new RateLimiterImpl(budgets, localStorage);
+
+    expect(limiter.tryConsume('analysis')).toBe(true);
+    expect(limiter.tryConsume('analysis')).toBe(true);
+    expect(limiter.tryConsume('analysis')).toBe(false);
+    expect(limiter.getInfo('analysis')).toMatchObject({ remaining: 0, retryAfter: 1000 });
+
+    vi.advanceTimersByTime(1000);
+
+    expect(limiter.getInfo('analysis')).toMatchObject({ remaining: 1, retryAfter: 0 });
+    expect(limiter.getInfo('analysis').resetTime).toBe(Date.now() + 1000);
+    expect(limiter.tryConsume('analysis')).toBe(true);
+  });
+
+  it('keeps budgets separate', () => {
+    const limiter = new RateLimiterImpl(budgets, localStorage);
+
+    expect(limiter.tryConsume('roast')).toBe(true);
+    expect(limiter.tryConsume('roast')).toBe(false);
+    expect(limiter.getInfo('analysis').remaining).toBe(2);
+  });
+
+  it('shares state between instances through storage', () => {
+    new RateLimiterImpl(budgets, localStorage).tryConsume('roast');
+
+    expect(new RateLimiterImpl(budgets, localStorage).tryConsume('roast')).toBe(false);
+  });
+});
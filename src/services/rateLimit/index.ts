@@ -0,0 +1,2 @@
+export type { RateLimiter, TokenBucketConfig } from './RateLimiter';
+export { RateLimiterImpl, rateLimiter, RATE_LIMIT_BUDGETS, getRateLimitMessage } from './RateLimiter';
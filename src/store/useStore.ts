@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { immer } from 'zustand/middleware/immer';
 import type { AnalysisResult, Theme } from '@/types';
+import type { CustomRoastModeConfig, CustomRoastModeId } from '@/types/roast';
 
 interface AppState {
   // Analysis state
@@ -13,6 +14,9 @@ interface AppState {
   theme: Theme;
   showConfetti: boolean;
   
+  // Roast modes made in the mode editor
+  customRoastModes: CustomRoastModeConfig[];
+  
   // Performance metrics
   metrics: {
     analysisCount: number;
@@ -32,6 +36,10 @@ interface AppActions {
   setTheme: (theme: Theme) => void;
   setShowConfetti: (show: boolean) => void;
   
+  // Roast mode actions
+  saveCustomRoastMode: (mode: CustomRoastModeConfig) => void;  // Adds the mode, or replaces the one with its id
+  deleteCustomRoastMode: (id: CustomRoastModeId) => void;
+  
   // Utility actions
   reset: () => void;
 }
@@ -44,6 +52,7 @@ const initialState: AppState = {
   isAnalyzing: false,
   theme: 'dark',
   showConfetti: false,
+  customRoastModes: [],
   metrics: {
     analysisCount: 0,
     averageProcessingTime: 0,
@@ -103,6 +112,24 @@ export const useStore = create<Store>()(
         });
       },
 
+      // Roast mode actions
+      saveCustomRoastMode: (mode) => {
+        set((state) => {
+          const index = state.customRoastModes.findIndex((existing) => existing.id === mode.id);
+          if (index === -1) {
+            state.customRoastModes.push(mode);
+          } else {
+            state.customRoastModes[index] = mode;
+          }
+        });
+      },
+
+      deleteCustomRoastMode: (id) => {
+        set((state) => {
+          state.customRoastModes = state.customRoastModes.filter((mode) => mode.id !== id);
+        });
+      },
+
       // Utility actions
       reset: () => {
         set(() => ({ ...initialState }));
@@ -113,6 +140,7 @@ export const useStore = create<Store>()(
       partialize: (state) => ({
         analysisHistory: state.analysisHistory.slice(0, 10), // Persist only recent history
         theme: state.theme,
+        customRoastModes: state.customRoastModes,
         metrics: state.metrics,
       }),
       version: 1,
@@ -125,4 +153,5 @@ export const useCurrentAnalysis = () => useStore((state) => state.currentAnalysi
 export const useAnalysisHistory = () => useStore((state) => state.analysisHistory);
 export const useIsAnalyzing = () => useStore((state) => state.isAnalyzing);
 export const useTheme = () => useStore((state) => state.theme);
-export const useMetrics = () => useStore((state) => state.metrics);
\ No newline at end of file
+export const useMetrics = () => useStore((state) => state.metrics);
+export const useCustomRoastModes = () => useStore((state) => state.customRoastModes);
\ No newline at end of file
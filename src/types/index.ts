@@ -5,6 +5,12 @@
 // Risk level enumeration
 export type RiskLevel = 'SAFE' | 'MILD' | 'MODERATE' | 'HIGH' | 'EXTREME';
 
+// Platform the post is being scored for
+export type ScoringProfileId = 'default' | 'x' | 'linkedin' | 'tiktok' | 'reddit';
+
+// Lowest score for each risk level above SAFE
+export type RiskThresholds = Readonly<Record<Exclude<RiskLevel, 'SAFE'>, number>>;
+
 // Theme configuration
 export type Theme = 'dark' | 'light' | 'auto';
 
@@ -20,6 +26,53 @@ export interface AnalysisCategories {
   readonly spam: number;
 }
 
+// Platform-specific scoring rules
+export interface ScoringProfile {
+  readonly id: ScoringProfileId;
+  readonly name: string;
+  readonly description: string;
+  readonly weights: Readonly<Record<keyof AnalysisCategories, number>>;
+  readonly thresholds: RiskThresholds;
+  readonly maxLength: number;
+}
+
+// Risky phrase located in the analyzed text by character offsets
+export interface RiskHighlight {
+  readonly start: number;
+  readonly end: number;
+  readonly phrase: string;
+  readonly category: keyof AnalysisCategories;
+  readonly contribution: number;
+}
+
+// Independent score for one sentence of the analyzed text
+export interface SentenceAnalysis {
+  readonly index: number;
+  readonly text: string;
+  readonly start: number;
+  readonly end: number;
+  readonly categories: AnalysisCategories;
+  readonly cancelScore: number;
+  readonly riskLevel: RiskLevel;
+}
+
+// One category's share of the cancel score (value × weight)
+export interface CategoryContribution {
+  readonly category: keyof AnalysisCategories;
+  readonly value: number;
+  readonly weight: number;
+  readonly contribution: number;
+}
+
+// Explanation of how a cancel score was reached
+export interface ScoreBreakdown {
+  readonly contributions: readonly CategoryContribution[]; // Largest first
+  readonly score: number;
+  readonly riskLevel: RiskLevel;
+  readonly threshold: number | null;                       // Lower bound of riskLevel, null when SAFE
+  readonly tippingCategory: keyof AnalysisCategories | null; // Category that pushed the score over threshold
+}
+
 // Core analysis result interface
 export interface AnalysisResult {
   readonly id: string;
@@ -27,13 +80,113 @@ export interface AnalysisResult {
   readonly cancelScore: number;
   readonly riskLevel: RiskLevel;
   readonly roast: string;
-  readonly apology: string;
+  readonly apology: string;              // Empty when the config turned apologies off
   readonly timestamp: number;
   readonly categories: AnalysisCategories;
   readonly recommendations: readonly string[];
   readonly confidence: number;
   readonly processingTime: number;
   readonly version: string;
+  readonly highlights?: readonly RiskHighlight[]; // Missing on results saved before highlights existed
+  readonly sentences?: readonly SentenceAnalysis[];
+  readonly scoreBreakdown?: ScoreBreakdown;
+  readonly profile?: ScoringProfileId;
+  readonly language?: string;            // ISO 639-1 code the text was analyzed as
+  readonly languageSupported?: boolean;  // false when no lexicon exists for the language
+  readonly thread?: ThreadAnalysis;      // Set when the result covers a whole thread
+  readonly ensemble?: EnsembleReport;    // Set when several providers scored the text
+  readonly source?: AnalysisSource;      // Missing on results saved before sources were recorded
+  readonly provenance?: AnalysisProvenance;
+  readonly flaggedPhrases?: readonly string[]; // Phrases that carry the risk, from the LLM or else the lexicon
+}
+
+// Where a result's scores came from: the configured provider, the local fallback after
+// that provider failed, or the local stand-in used when no provider is configured
+export type AnalysisSource = 'provider' | 'fallback' | 'mock';
+
+// A provider that contributed to a result, and the categories it scored
+export interface ProviderProvenance {
+  readonly id: string;
+  readonly name: string;
+  readonly model?: string;
+  readonly categories: readonly (keyof AnalysisCategories)[];
+}
+
+export interface StageTiming {
+  readonly stage: string;
+  readonly ms: number;
+}
+
+// Everything that went into a result, so a disputed score can be traced back
+export interface AnalysisProvenance {
+  readonly engineVersion: string;
+  readonly lexiconVersion: string;
+  readonly roastPromptVersion?: string;  // Set when an LLM was asked for the roast, apology and recommendations
+  readonly roastAttempts?: number;       // LLM calls it took for the roast and apology to pass moderation
+  readonly profile: ScoringProfileId;
+  readonly providers: readonly ProviderProvenance[];
+  readonly scoreSource: AnalysisSource;
+  readonly roastSource: AnalysisSource;  // `mock` when the roast came from the templates
+  readonly stageTimings: readonly StageTiming[];
+}
+
+// How an ensemble merges its providers' categories
+export type EnsembleStrategy = 'mean' | 'max' | 'weighted';
+
+export interface EnsembleConfig {
+  readonly providers: readonly string[];                // Registered ToxicityProvider ids
+  readonly strategy: EnsembleStrategy;
+  readonly weights?: Readonly<Record<string, number>>;  // Per provider id for 'weighted'; missing ids weigh 1
+}
+
+// One provider's scores within an ensemble
+export interface ProviderScores {
+  readonly providerId: string;
+  readonly name: string;
+  readonly categories: AnalysisCategories;
+}
+
+export interface EnsembleReport {
+  readonly strategy: EnsembleStrategy;
+  readonly providers: readonly ProviderScores[];
+  readonly failed: readonly string[];                   // Provider ids that were unavailable or errored
+  readonly spreads: Readonly<Record<keyof AnalysisCategories, number>>; // Highest minus lowest score per category
+  readonly disagreement: number;                        // 0 (unanimous) to 1
+  readonly divergentCategories: readonly (keyof AnalysisCategories)[];
+}
+
+// How a thread's posts combine into one score
+export interface ThreadAggregate {
+  readonly postScores: readonly number[];
+  readonly peakScore: number;
+  readonly peakIndex: number;
+  readonly baseScore: number;        // Weighted peak and mean, before escalation
+  readonly escalation: number;       // Points added because later posts got worse
+  readonly trend: 'escalating' | 'steady' | 'de-escalating';
+}
+
+// Per-post results of a thread analyzed as one unit
+export interface ThreadAnalysis {
+  readonly posts: readonly AnalysisResult[];
+  readonly aggregate: ThreadAggregate;
+}
+
+// One pass of the safer rewrite loop
+export interface RewriteAttempt {
+  readonly attempt: number;
+  readonly text: string;
+  readonly cancelScore: number;
+  readonly riskLevel: RiskLevel;
+  readonly source: 'llm' | 'mock';
+}
+
+// Outcome of rewriting a post until it scores at or below a target risk level
+export interface RewriteResult {
+  readonly original: AnalysisResult;
+  readonly rewrite: AnalysisResult;
+  readonly attempts: readonly RewriteAttempt[];
+  readonly targetRisk: RiskLevel;
+  readonly reachedTarget: boolean;
 }
 
 // Analysis request configuration
@@ -41,7 +194,21 @@ export interface AnalysisConfig {
   readonly includeRoast: boolean;
   readonly includeApology: boolean;
   readonly roastPersonality: 'sarcastic' | 'witty' | 'brutal' | 'friendly';
-  readonly language: string;
+  readonly language: string;       // ISO 639-1 code, or 'auto' to detect
+  readonly provider: string;       // Registered ToxicityProvider id, e.g. 'perspective' | 'lexicon'
+  readonly ensemble: EnsembleConfig; // Score with several providers instead of `provider`
+  readonly profile: ScoringProfileId;
+  readonly bypassCache: boolean;   // Skip cached results; the fresh result still replaces the cached one
+}
+
+// Separate request budgets shared by every tab
+export type RateLimitBudget = 'analysis' | 'roast';
+
+export interface RateLimitInfo {
+  readonly limit: number;
+  readonly remaining: number;
+  readonly resetTime: number;      // Epoch ms when the budget is full again
+  readonly retryAfter: number;     // Ms until the next request is allowed; 0 when one is allowed now
 }
 
 // Performance metrics for monitoring
@@ -2,7 +2,14 @@
  * Type definitions for the roast generation system
  */
 
-export type RoastMode = 'genz' | 'hr' | 'therapist' | 'savage' | 'friendly';
+import type { RateLimitInfo } from './index';
+
+export type BuiltInRoastMode = 'genz' | 'hr' | 'therapist' | 'savage' | 'friendly';
+
+// Modes users create in the mode editor
+export type CustomRoastModeId = `custom-${string}`;
+
+export type RoastMode = BuiltInRoastMode | CustomRoastModeId;
 
 export interface RoastConfig {
   mode: RoastMode;
@@ -10,6 +17,7 @@ export interface RoastConfig {
   includeEmojis: boolean;
   maxLength: number;
   customPrompt?: string;
+  language?: string | undefined; // Lexicon the roast is moderated against; detected from the text when unset
 }
 
 export interface RoastResult {
@@ -21,6 +29,23 @@ export interface RoastResult {
   confidence: number;
   tags: string[];
   shareableUrl?: string;
+  attempts?: number;        // Generations it took to pass moderation; a safe template is used after the last
+}
+
+// What a roast prompt was built from, kept next to the prompt rather than parsed back out of it
+export interface RoastPromptMetadata {
+  originalText: string;
+  mode: RoastMode;
+  intensity: number;
+  variation: boolean;              // Built to differ from earlier roasts of the same text
+  injectionSuspected: boolean;
+  injectionMatches: string[];
+}
+
+export interface RoastPrompt {
+  system: string;
+  user: string;
+  metadata: RoastPromptMetadata;
 }
 
 export interface RoastModeConfig {
@@ -35,6 +60,11 @@ export interface RoastModeConfig {
   temperature: number;
 }
 
+export interface CustomRoastModeConfig extends RoastModeConfig {
+  id: CustomRoastModeId;
+  updatedAt: number;
+}
+
 export interface RoastGenerationRequest {
   text: string;
   config: RoastConfig;
@@ -45,8 +75,5 @@ export interface RoastGenerationResponse {
   success: boolean;
   result?: RoastResult;
   error?: string;
-  rateLimitInfo?: {
-    remaining: number;
-    resetTime: number;
-  };
+  rateLimitInfo?: RateLimitInfo;
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { splitSentences } from '@/utils/sentences';
+
+const texts = (text: string) => splitSentences(text).map(sentence => sentence.text);
+
+describe('splitSentences', () => {
+  it('splits on terminal punctuation and line breaks', () => {
+    expect(texts('Great game! Did you see it?\nBest one yet.')).toEqual(['Great game!', 'Did you see it?', 'Best one yet.']);
+  });
+
+  it('keeps "e.g." and "i.e." inside their sentence', () => {
+    expect(texts('Then e.g. this works. Next one.')).toEqual(['Then e.g. this works.', 'Next one.']);
+    expect(texts('Pick one, I.E. the cheap one. Done.')).toEqual(['Pick one, I.E. the cheap one.', 'Done.']);
+  });
+
+  it('does not end a sentence at a title', () => {
+    const [first] = splitSentences('Ask Dr. Smith about it. She knows.');
+
+    expect(first).toEqual({ text: 'Ask Dr. Smith about it.', start: 0, end: 23 });
+  });
+});
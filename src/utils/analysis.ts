@@ -1,4 +1,4 @@
-import type { RiskLevel } from '@/types';
+import type { AnalysisCategories, RiskLevel } from '@/types';
 
 /**
  * Utility functions for analysis UI components
@@ -45,4 +45,49 @@ export function getRiskBadgeColor(riskLevel: RiskLevel): string {
     EXTREME: 'bg-red-600/20 text-red-600 border-red-600/30',
   };
   return colors[riskLevel];
-}
\ No newline at end of file
+}
+export function getCategoryUnderlineColor(category: keyof AnalysisCategories): string {
+  const colors = {
+    toxicity: 'decoration-red-400',
+    identity_attack: 'decoration-rose-500',
+    insult: 'decoration-orange-400',
+    profanity: 'decoration-yellow-400',
+    threat: 'decoration-red-600',
+    sexually_explicit: 'decoration-pink-400',
+    flirtation: 'decoration-fuchsia-400',
+    spam: 'decoration-sky-400',
+  };
+  return colors[category];
+}
+
+export function getCategoryTextColor(category: keyof AnalysisCategories): string {
+  const colors = {
+    toxicity: 'text-red-400',
+    identity_attack: 'text-rose-500',
+    insult: 'text-orange-400',
+    profanity: 'text-yellow-400',
+    threat: 'text-red-600',
+    sexually_explicit: 'text-pink-400',
+    flirtation: 'text-fuchsia-400',
+    spam: 'text-sky-400',
+  };
+  return colors[category];
+}
+
+export function formatCategoryName(category: keyof AnalysisCategories): string {
+  return category.replace('_', ' ');
+}
+
+export function getCategoryBgColor(category: keyof AnalysisCategories): string {
+  const colors = {
+    toxicity: 'bg-red-400',
+    identity_attack: 'bg-rose-500',
+    insult: 'bg-orange-400',
+    profanity: 'bg-yellow-400',
+    threat: 'bg-red-600',
+    sexually_explicit: 'bg-pink-400',
+    flirtation: 'bg-fuchsia-400',
+    spam: 'bg-sky-400',
+  };
+  return colors[category];
+}
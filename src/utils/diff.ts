@@ -0,0 +1,63 @@
+/**
+ * Word-level text diff utilities
+ */
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+function tokenize(text: string): string[] {
+  // Keep whitespace as its own tokens so joining segments restores the text exactly
+  return text.split(/(\s+)/).filter(Boolean);
+}
+
+/**
+ * Diff two texts word by word using the longest common subsequence.
+ * Adjacent tokens of the same type are merged into one segment.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  const at = (i: number, j: number): number => lcs[i]?.[j] ?? 0;
+  for (let i = a.length - 1; i >= 0; i--) {
+    const row = lcs[i] ?? [];
+    for (let j = b.length - 1; j >= 0; j--) {
+      row[j] = a[i] === b[j] ? at(i + 1, j + 1) + 1 : Math.max(at(i + 1, j), at(i, j + 1));
+    }
+  }
+  
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last?.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+  
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    const removed = a[i];
+    const added = b[j];
+    
+    if (removed !== undefined && removed === added) {
+      push('equal', removed);
+      i++;
+      j++;
+    } else if (removed !== undefined && (added === undefined || at(i + 1, j) >= at(i, j + 1))) {
+      push('removed', removed);
+      i++;
+    } else if (added !== undefined) {
+      push('added', added);
+      j++;
+    }
+  }
+  
+  return segments;
+}
@@ -0,0 +1,77 @@
+/**
+ * Language detection utilities
+ */
+
+export interface DetectedLanguage {
+  language: string;   // ISO 639-1 code
+  confidence: number; // 0-1
+}
+
+// Frequent function words; romanized Hindi is common enough on social media to include
+const STOPWORDS: Readonly<Record<string, readonly string[]>> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'that', 'this', 'with', 'for', 'not', 'have', 'was', 'what', 'but', 'it'],
+  es: ['el', 'la', 'los', 'las', 'que', 'es', 'y', 'de', 'en', 'no', 'por', 'con', 'una', 'para', 'pero', 'eres', 'muy'],
+  fr: ['le', 'la', 'les', 'est', 'et', 'de', 'des', 'que', 'pas', 'une', 'pour', 'avec', 'tu', 'vous', 'ce', 'très', 'mais'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'du', 'sie', 'ein', 'eine', 'mit', 'für', 'auf', 'aber', 'sehr', 'bist'],
+  hi: ['hai', 'hain', 'nahi', 'nahin', 'kya', 'tum', 'tu', 'mein', 'aur', 'bhi', 'ko', 'ka', 'ki', 'ke', 'yeh', 'ye', 'woh'],
+  // Detected so they can be reported as unsupported instead of misread as Spanish or French
+  it: ['il', 'che', 'di', 'è', 'non', 'per', 'sono', 'gli', 'con', 'ma', 'molto', 'questo'],
+  pt: ['não', 'que', 'é', 'os', 'uma', 'para', 'com', 'você', 'mas', 'muito', 'isso', 'são'],
+};
+
+// Characters that only (or mostly) appear in one of the supported languages
+const CHARACTER_HINTS: ReadonlyArray<[RegExp, string]> = [
+  [/[ñ¿¡]/i, 'es'],
+  [/[ßäöü]/i, 'de'],
+  [/[çœèêëàâîïûù]/i, 'fr'],
+];
+
+const DEVANAGARI = /[ऀ-ॿ]/g;
+
+/**
+ * Guess the language of a text from its script, distinctive characters and common words.
+ * Falls back to English with low confidence when there's nothing to go on.
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const letters = text.replace(/[^\p{L}\p{M}]/gu, '').length;
+  if (letters === 0) return { language: 'en', confidence: 0 };
+
+  // Script-based detection is reliable
+  const devanagari = (text.match(DEVANAGARI) || []).length;
+  if (devanagari / letters > 0.3) {
+    return { language: 'hi', confidence: Math.min(0.5 + devanagari / letters / 2, 1) };
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}\p{M}']+/gu) || [];
+  const scores: Record<string, number> = {};
+
+  for (const [language, stopwords] of Object.entries(STOPWORDS)) {
+    scores[language] = words.filter(word => stopwords.includes(word)).length;
+  }
+
+  for (const [pattern, language] of CHARACTER_HINTS) {
+    if (pattern.test(text)) scores[language] = (scores[language] ?? 0) + 2;
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [best, second] = ranked;
+  if (!best || best[1] === 0) return { language: 'en', confidence: 0.2 };
+
+  // Confidence grows with the margin over the runner-up
+  const margin = (best[1] - (second?.[1] ?? 0)) / best[1];
+  return { language: best[0], confidence: Math.round((0.4 + margin * 0.6) * 100) / 100 };
+}
+
+export const LANGUAGE_NAMES: Readonly<Record<string, string>> = {
+  en: 'English',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  hi: 'हिन्दी',
+  it: 'Italiano',
+  pt: 'Português',
+};
+
+export function getLanguageName(language: string): string {
+  return LANGUAGE_NAMES[language] ?? language.toUpperCase();
+}
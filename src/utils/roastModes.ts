@@ -0,0 +1,166 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { RoastModeConfig, CustomRoastModeConfig, CustomRoastModeId } from '@/types/roast';
+
+/**
+ * Validation, duplication and JSON import/export for user-defined roast modes
+ */
+
+// Tailwind only ships classes it finds in the source, so custom modes pick from these
+export const ROAST_MODE_COLORS = [
+  'from-pink-500 to-purple-600',
+  'from-blue-500 to-indigo-600',
+  'from-green-500 to-teal-600',
+  'from-red-500 to-orange-600',
+  'from-yellow-500 to-orange-500',
+  'from-cyan-500 to-blue-600',
+  'from-gray-500 to-gray-700',
+] as const;
+
+export const ROAST_MODE_LIMITS = {
+  name: 40,
+  description: 120,
+  icon: 8,                 // Room for emoji built from several code points
+  systemPrompt: 2000,
+  examples: 5,
+  example: 200,
+  minTokens: 20,
+  maxTokens: 400,          // The API proxy caps completions at this too
+  maxTemperature: 1.5,
+} as const;
+
+// Bump when the export format changes in a way older imports can't read
+export const ROAST_MODES_FILE_VERSION = 1;
+
+export interface RoastModesFile {
+  version: number;
+  modes: CustomRoastModeConfig[];
+}
+
+const CUSTOM_MODE_ID = /^custom-[A-Za-z0-9-]{1,64}$/;
+
+export function isCustomRoastMode(mode: string): mode is CustomRoastModeId {
+  return CUSTOM_MODE_ID.test(mode);
+}
+
+export function createCustomRoastModeId(): CustomRoastModeId {
+  return `custom-${uuidv4()}`;
+}
+
+function readText(value: unknown, field: string, maxLength: number, errors: string[], required = true): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text && required) {
+    errors.push(`${field} is required`);
+  } else if (text.length > maxLength) {
+    errors.push(`${field} must be at most ${maxLength} characters`);
+  }
+  return text;
+}
+
+function readNumber(value: unknown, field: string, min: number, max: number, errors: string[]): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+    errors.push(`${field} must be a number from ${min} to ${max}`);
+    return min;
+  }
+  return value;
+}
+
+/**
+ * Check a mode from the editor or an imported file, returning it trimmed and
+ * normalized. `config` is null whenever there are errors.
+ */
+export function validateRoastModeConfig(value: unknown): { config: RoastModeConfig | null; errors: string[] } {
+  if (!value || typeof value !== 'object') {
+    return { config: null, errors: ['Mode must be an object'] };
+  }
+
+  const input = value as Partial<Record<keyof RoastModeConfig, unknown>>;
+  const errors: string[] = [];
+
+  const examples = Array.isArray(input.examples)
+    ? input.examples.map(example => readText(example, 'Each example', ROAST_MODE_LIMITS.example, errors, false)).filter(Boolean)
+    : [];
+  if (examples.length > ROAST_MODE_LIMITS.examples) {
+    errors.push(`At most ${ROAST_MODE_LIMITS.examples} examples are allowed`);
+  }
+
+  const config: RoastModeConfig = {
+    name: readText(input.name, 'Name', ROAST_MODE_LIMITS.name, errors),
+    description: readText(input.description, 'Description', ROAST_MODE_LIMITS.description, errors, false),
+    icon: readText(input.icon, 'Icon', ROAST_MODE_LIMITS.icon, errors),
+    // Colors are cosmetic, so an unknown one is replaced rather than rejected
+    color: ROAST_MODE_COLORS.find(color => color === input.color) ?? ROAST_MODE_COLORS[0],
+    systemPrompt: readText(input.systemPrompt, 'System prompt', ROAST_MODE_LIMITS.systemPrompt, errors),
+    examples,
+    intensity: Math.round(readNumber(input.intensity, 'Intensity', 1, 10, errors)),
+    maxTokens: Math.round(readNumber(input.maxTokens, 'Max tokens', ROAST_MODE_LIMITS.minTokens, ROAST_MODE_LIMITS.maxTokens, errors)),
+    temperature: readNumber(input.temperature, 'Temperature', 0, ROAST_MODE_LIMITS.maxTemperature, errors),
+  };
+
+  return { config: errors.length === 0 ? config : null, errors };
+}
+
+/**
+ * A copy of any mode, built-in or custom, under a new id and a name not in `takenNames`
+ */
+export function duplicateRoastMode(config: RoastModeConfig, takenNames: readonly string[]): CustomRoastModeConfig {
+  const base = config.name.slice(0, ROAST_MODE_LIMITS.name - 10);
+  let name = `${base} (copy)`;
+  for (let n = 2; takenNames.includes(name); n++) {
+    name = `${base} (copy ${n})`;
+  }
+
+  return {
+    ...config,
+    examples: [...config.examples],
+    name,
+    id: createCustomRoastModeId(),
+    updatedAt: Date.now(),
+  };
+}
+
+export function exportRoastModes(modes: readonly CustomRoastModeConfig[]): string {
+  const file: RoastModesFile = { version: ROAST_MODES_FILE_VERSION, modes: [...modes] };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read modes from an exported file. Valid modes are returned even when others
+ * fail; a mode keeps its id so importing a newer export updates it in place.
+ */
+export function importRoastModes(json: string): { modes: CustomRoastModeConfig[]; errors: string[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { modes: [], errors: ['File is not valid JSON'] };
+  }
+
+  // Also accept a bare list of modes, or a single mode
+  const file = data as Partial<RoastModesFile> | null;
+  const entries: unknown[] = Array.isArray(data) ? data : Array.isArray(file?.modes) ? file.modes : [data];
+
+  if (typeof file?.version === 'number' && file.version > ROAST_MODES_FILE_VERSION) {
+    return { modes: [], errors: [`File version ${file.version} is newer than this app supports`] };
+  }
+
+  const modes: CustomRoastModeConfig[] = [];
+  const errors: string[] = [];
+
+  entries.forEach((entry, index) => {
+    const { config, errors: entryErrors } = validateRoastModeConfig(entry);
+    if (!config) {
+      const name = (entry as { name?: unknown } | null)?.name;
+      errors.push(`Mode ${index + 1}${typeof name === 'string' ? ` ("${name}")` : ''}: ${entryErrors.join(', ')}`);
+      return;
+    }
+
+    const id = (entry as { id?: unknown }).id;
+    modes.push({
+      ...config,
+      id: typeof id === 'string' && isCustomRoastMode(id) ? id : createCustomRoastModeId(),
+      updatedAt: Date.now(),
+    });
+  });
+
+  return { modes, errors };
+}
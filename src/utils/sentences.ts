@@ -0,0 +1,46 @@
+/**
+ * Sentence splitting utilities
+ */
+
+export interface SentenceSpan {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Runs of text ending in terminal punctuation (plus closing quotes/brackets), a line break, or the end of input.
+// "e.g." and "i.e." are matched whole inside a run, since their inner period would otherwise end it.
+// `।` is the Devanagari full stop.
+const SENTENCE_PATTERN = /(?:\b(?:e\.g|i\.e)\.|[^.!?।\n])+(?:[.!?…।]+["')\]]*|\n|$)|[.!?…।]+/gi;
+
+// Common abbreviations that end in a period but don't end a sentence
+const ABBREVIATIONS = /\b(?:mr|mrs|ms|dr|prof|sr|jr|st|vs|etc|approx|dept|inc|ltd)\.$/i;
+
+export function splitSentences(text: string): SentenceSpan[] {
+  const spans: SentenceSpan[] = [];
+  let pending: SentenceSpan | null = null;
+
+  for (const match of text.matchAll(SENTENCE_PATTERN)) {
+    const raw = match[0];
+    const offset = match.index ?? 0;
+    const leading = raw.length - raw.trimStart().length;
+    const trimmed = raw.trim();
+    if (!trimmed) continue;
+
+    const span: SentenceSpan = pending
+      ? { text: text.slice(pending.start, offset + leading + trimmed.length), start: pending.start, end: offset + leading + trimmed.length }
+      : { text: trimmed, start: offset + leading, end: offset + leading + trimmed.length };
+
+    if (ABBREVIATIONS.test(span.text)) {
+      pending = span;
+      continue;
+    }
+
+    spans.push(span);
+    pending = null;
+  }
+
+  if (pending) spans.push(pending);
+
+  return spans;
+}
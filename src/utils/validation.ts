@@ -8,7 +8,7 @@ export interface ValidationResult {
   errors: string[];
 }
 
-export function validateInput(text: string): ValidationResult {
+export function validateInput(text: string, maxLength = 2000): ValidationResult {
   const errors: string[] = [];
   
   if (!text || typeof text !== 'string') {
@@ -29,10 +29,10 @@ export function validateInput(text: string): ValidationResult {
     };
   }
   
-  if (trimmedText.length > 2000) {
+  if (trimmedText.length > maxLength) {
     return {
       isValid: false,
-      message: 'Text must be less than 2000 characters',
+      message: `Text must be less than ${maxLength} characters`,
       errors: ['Text too long']
     };
   }
@@ -60,6 +60,31 @@ export function validateInput(text: string): ValidationResult {
   };
 }
 
+export function validateThread(posts: string[], maxLength = 2000): ValidationResult {
+  const filled = posts.filter(post => post.trim());
+  
+  if (filled.length < 2) {
+    return {
+      isValid: false,
+      message: 'Add at least 2 posts to analyze a thread',
+      errors: ['Thread too short']
+    };
+  }
+  
+  for (const [index, post] of filled.entries()) {
+    const result = validateInput(post, maxLength);
+    if (!result.isValid) {
+      return { ...result, message: `Post ${index + 1}: ${result.message}` };
+    }
+  }
+  
+  return {
+    isValid: true,
+    message: 'Thread is ready for analysis',
+    errors: []
+  };
+}
+
 export function sanitizeInput(text: string): string {
   // Remove potentially dangerous characters
   return text
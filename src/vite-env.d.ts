@@ -1 +1,21 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_OPENAI_API_KEY?: string;
+  readonly VITE_PERSPECTIVE_API_KEY?: string;
+  readonly VITE_PERSPECTIVE_API_URL?: string;
+  readonly VITE_MODERATION_API_KEY?: string;
+  readonly VITE_MODERATION_API_URL?: string;
+  readonly VITE_TOXICITY_HTTP_URL?: string;
+  readonly VITE_TOXICITY_PROVIDER?: string;
+  readonly VITE_API_PROXY_URL?: string;
+  readonly VITE_LLM_BASE_URL?: string;
+  readonly VITE_LLM_MODEL?: string;
+  readonly VITE_LLM_API_KEY?: string;
+  readonly VITE_LLM_HEADERS?: string;         // JSON object of extra request headers
+  readonly VITE_LLM_MODE_OVERRIDES?: string;  // JSON object of per-RoastMode endpoint overrides
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -26,6 +26,10 @@ export default defineConfig({
   server: {
     port: 3000,
     host: true,
+    proxy: {
+      // `npm run server`; set VITE_API_PROXY_URL=/api to use it
+      '/api': 'http://localhost:8787',
+    },
   },
   preview: {
     port: 4173,